@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findCalendarEvent, formatCalendarFeed } from '../../../lib/events';
+import { CalendarSourceError, fetchCalendarSource } from '../../../lib/sources';
+import { parseCalendarSource } from '../../../types';
+
+// A single event, or one occurrence of a recurring event, as an .ics file
+// for importing into another calendar app
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const calendarInput = searchParams.get('calendarId') || searchParams.get('url');
+  const id = searchParams.get('id');
+
+  if (!calendarInput || !id) {
+    return NextResponse.json(
+      { error: 'Calendar ID or URL and event ID are required' },
+      { status: 400 }
+    );
+  }
+
+  const source = parseCalendarSource(calendarInput);
+
+  if (!source) {
+    return NextResponse.json(
+      { error: 'Invalid calendar ID or URL format' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const icalData = await fetchCalendarSource(source);
+    const event = findCalendarEvent(icalData, id);
+
+    if (!event) {
+      return NextResponse.json({ error: 'Event not found' }, { status: 404 });
+    }
+
+    const filename = event.title.replace(/[^\w\- ]+/g, '').trim().replace(/\s+/g, '-').slice(0, 60) || 'event';
+
+    return new NextResponse(formatCalendarFeed([event]), {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}.ics"`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof CalendarSourceError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Error exporting event:', error);
+    return NextResponse.json(
+      { error: 'Failed to export event' },
+      { status: 500 }
+    );
+  }
+}
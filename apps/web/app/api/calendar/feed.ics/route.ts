@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { loadCalendarData, parseCalendarQuery } from '../../../lib/calendars';
+import { formatCalendarFeed } from '../../../lib/events';
+import { CalendarSourceError } from '../../../lib/sources';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The events /api/calendar would return for the same parameters, re-published
+// as a subscribable iCal feed. Recurring events are written out as their
+// individual occurrences, so the feed covers a month back and a year ahead
+// unless timeMin/timeMax say otherwise.
+export async function GET(request: NextRequest) {
+  try {
+    const query = parseCalendarQuery(request.nextUrl.searchParams, {
+      timeMin: new Date(Date.now() - 30 * DAY_MS).toISOString(),
+      timeMax: new Date(Date.now() + 365 * DAY_MS).toISOString(),
+    });
+    const data = await loadCalendarData(query);
+
+    return new NextResponse(formatCalendarFeed(data.events, { name: data.summary, timeZone: data.timeZone }), {
+      headers: { 'Content-Type': 'text/calendar; charset=utf-8' },
+    });
+  } catch (error) {
+    if (error instanceof CalendarSourceError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Error building calendar feed:', error);
+    return NextResponse.json(
+      { error: 'Failed to build calendar feed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { eventInTimeZone, formatTimeZone, serverDisplayTimeZone, toZonedTime } from '../../../components/calendar-utils';
+import { getCalendarI18n } from '../../../components/i18n';
+import { renderCalendarImage } from '../../../components/image-layout';
+import { loadCalendarData, parseCalendarQuery } from '../../../lib/calendars';
+import { getEmbed } from '../../../lib/embeds';
+import { CalendarSourceError } from '../../../lib/sources';
+import { calendarApiQuery, CalendarConfig, defaultConfig, getCalendarSources, queryStringToConfig } from '../../../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_WIDTH = 320;
+const MAX_WIDTH = 2000;
+const MAX_SCALE = 3;
+
+// The calendar as an image for places that can't run the embed, such as
+// newsletters and signage. The config is a saved embed's (`embed=<id>`) or
+// read from the query like /embed's. `layout` is month or list (the
+// default for agenda embeds), `month` the YYYY-MM the grid shows (this
+// month by default), `format` png or svg, `width` the width in px and
+// `scale` the PNG's pixel density. Cached briefly so images refresh as the
+// calendar changes.
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+
+  let config: CalendarConfig;
+  const embedId = searchParams.get('embed');
+  if (embedId) {
+    const embed = await getEmbed(embedId);
+    if (!embed) {
+      return NextResponse.json({ error: 'Embed not found' }, { status: 404 });
+    }
+    config = embed.config;
+  } else {
+    config = { ...defaultConfig, ...queryStringToConfig(searchParams) };
+  }
+
+  const format = searchParams.get('format') === 'svg' ? 'svg' : 'png';
+  const layout = searchParams.get('layout') === 'list' || (!searchParams.has('layout') && config.viewMode === 'agenda')
+    ? 'list'
+    : 'month';
+  const width = Math.round(Math.min(Math.max(Number(searchParams.get('width')) || 800, MIN_WIDTH), MAX_WIDTH));
+  const scale = Math.min(Math.max(Number(searchParams.get('scale')) || 1, 1), MAX_SCALE);
+
+  const monthParam = searchParams.get('month');
+  if (monthParam && !/^\d{4}-(0[1-9]|1[0-2])$/.test(monthParam)) {
+    return NextResponse.json({ error: 'month must be a YYYY-MM string' }, { status: 400 });
+  }
+
+  try {
+    const now = new Date();
+    const [year, month] = monthParam
+      ? monthParam.split('-').map(Number)
+      : [now.getUTCFullYear(), now.getUTCMonth() + 1];
+    // A day either side covers every zone the calendar could be shown in
+    const range = layout === 'month'
+      ? {
+        timeMin: new Date(Date.UTC(year, month - 1, 0)).toISOString(),
+        timeMax: new Date(Date.UTC(year, month, 2)).toISOString(),
+      }
+      : {
+        timeMin: new Date(now.getTime() - DAY_MS).toISOString(),
+        timeMax: new Date(now.getTime() + (Math.max(config.agendaDaysAhead, 1) + 1) * DAY_MS).toISOString(),
+      };
+    const data = await loadCalendarData(parseCalendarQuery(calendarApiQuery(config), range));
+
+    const timeZone = serverDisplayTimeZone(config.displayTimeZone, data.timeZone);
+    const today = toZonedTime(now, timeZone);
+    const i18n = getCalendarI18n(config);
+
+    const svg = renderCalendarImage(data.events.map(event => eventInTimeZone(event, timeZone)), {
+      title: searchParams.get('title') || data.summary || i18n.messages.calendar,
+      layout,
+      month: monthParam ? new Date(year, month - 1, 1) : today,
+      today,
+      width,
+      config,
+      sources: getCalendarSources(config),
+      i18n,
+      subtitle: formatTimeZone(timeZone, i18n.locale),
+    });
+
+    if (format === 'svg') {
+      return new NextResponse(svg, {
+        headers: {
+          'Content-Type': 'image/svg+xml; charset=utf-8',
+          'Cache-Control': 'public, max-age=900',
+        },
+      });
+    }
+
+    // sharp rasterizes with librsvg and the fonts installed on the server;
+    // the Dockerfile installs them and sharp's binary for Alpine
+    const { default: sharp } = await import('sharp');
+    const png = await sharp(Buffer.from(svg), { density: 72 * scale }).png().toBuffer();
+
+    return new NextResponse(new Uint8Array(png), {
+      headers: {
+        'Content-Type': 'image/png',
+        'Cache-Control': 'public, max-age=900',
+      },
+    });
+  } catch (error) {
+    if (error instanceof CalendarSourceError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Error rendering calendar image:', error);
+    return NextResponse.json(
+      { error: 'Failed to render calendar image' },
+      { status: 500 }
+    );
+  }
+}
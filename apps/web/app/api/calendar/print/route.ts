@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { eventInTimeZone, formatTimeZone, parseDateKey } from '../../../components/calendar-utils';
+import { getCalendarI18n } from '../../../components/i18n';
+import { renderPrintableCalendar } from '../../../components/print-layout';
+import { loadCalendarData, parseCalendarQuery } from '../../../lib/calendars';
+import { CalendarSourceError } from '../../../lib/sources';
+import { isValidTimeZone } from '../../../lib/timezone';
+import { defaultConfig } from '../../../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Longest range one page covers
+const MAX_PRINT_DAYS = 366;
+
+// The calendars /api/calendar would return for the same parameters, as a
+// printable HTML page covering `start` to `end` (YYYY-MM-DD, inclusive;
+// this month by default). `layout` is month or list, and `locale`, `hour12`,
+// `weekStartsOn`, `timeZone` and `title` control formatting.
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const today = new Date();
+  const start = parseDateKey(searchParams.get('start')) ?? new Date(today.getFullYear(), today.getMonth(), 1);
+  const end = parseDateKey(searchParams.get('end')) ?? new Date(start.getFullYear(), start.getMonth() + 1, 0);
+
+  if (end < start || end.getTime() - start.getTime() > MAX_PRINT_DAYS * DAY_MS) {
+    return NextResponse.json(
+      { error: `The end date must be after the start date, at most ${MAX_PRINT_DAYS} days later` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    // A day either side covers every zone the range could be printed in
+    const query = parseCalendarQuery(searchParams, {
+      timeMin: new Date(Date.UTC(start.getFullYear(), start.getMonth(), start.getDate() - 1)).toISOString(),
+      timeMax: new Date(Date.UTC(end.getFullYear(), end.getMonth(), end.getDate() + 2)).toISOString(),
+    });
+    const data = await loadCalendarData(query);
+
+    const requestedZone = searchParams.get('timeZone');
+    const timeZone = requestedZone && isValidTimeZone(requestedZone) ? requestedZone
+      : isValidTimeZone(data.timeZone) ? data.timeZone
+      : 'UTC';
+    const i18n = getCalendarI18n({
+      locale: searchParams.get('locale') || defaultConfig.locale,
+      hour12: searchParams.has('hour12') ? searchParams.get('hour12') === 'true' : defaultConfig.hour12,
+      weekStartsOn: Number(searchParams.get('weekStartsOn')) || defaultConfig.weekStartsOn,
+    });
+
+    const html = renderPrintableCalendar(data.events.map(event => eventInTimeZone(event, timeZone)), {
+      title: searchParams.get('title') || data.summary,
+      start,
+      end,
+      layout: searchParams.get('layout') === 'list' ? 'list' : 'month',
+      i18n,
+      subtitle: formatTimeZone(timeZone, i18n.locale),
+      eventColor: event => event.color ?? '#000000',
+    });
+
+    return new NextResponse(html, {
+      headers: { 'Content-Type': 'text/html; charset=utf-8' },
+    });
+  } catch (error) {
+    if (error instanceof CalendarSourceError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Error building printable calendar:', error);
+    return NextResponse.json(
+      { error: 'Failed to build printable calendar' },
+      { status: 500 }
+    );
+  }
+}
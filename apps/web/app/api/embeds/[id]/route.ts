@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteEmbed, EmbedStoreError, getEmbed, updateEmbed } from '../../../lib/embeds';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Edit keys are sent as `Authorization: Bearer <key>`
+function getEditKey(request: NextRequest): string | null {
+  const match = request.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
+
+function errorResponse(error: unknown, fallbackMessage: string) {
+  if (error instanceof EmbedStoreError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+
+  console.error(`${fallbackMessage}:`, error);
+  return NextResponse.json({ error: fallbackMessage }, { status: 500 });
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  try {
+    const embed = await getEmbed(id);
+    if (!embed) {
+      return NextResponse.json({ error: 'Embed not found' }, { status: 404 });
+    }
+    return NextResponse.json({ embed });
+  } catch (error) {
+    console.error('Error loading embed:', error);
+    return NextResponse.json({ error: 'Failed to load embed' }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  let config: unknown;
+  try {
+    ({ config } = await request.json());
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  if (!config || typeof config !== 'object') {
+    return NextResponse.json({ error: 'Embed config is required' }, { status: 400 });
+  }
+
+  try {
+    const embed = await updateEmbed(id, config, getEditKey(request));
+    return NextResponse.json({ embed });
+  } catch (error) {
+    return errorResponse(error, 'Failed to update embed');
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  try {
+    await deleteEmbed(id, getEditKey(request));
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return errorResponse(error, 'Failed to delete embed');
+  }
+}
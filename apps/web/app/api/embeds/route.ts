@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createEmbed } from '../../lib/embeds';
+
+// Save an embed configuration. The edit key in the response is the only way
+// to update or delete the embed later, it is not stored in readable form.
+export async function POST(request: NextRequest) {
+  let config: unknown;
+  try {
+    ({ config } = await request.json());
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  if (!config || typeof config !== 'object') {
+    return NextResponse.json({ error: 'Embed config is required' }, { status: 400 });
+  }
+
+  try {
+    const { embed, editKey } = await createEmbed(config);
+    return NextResponse.json({ embed, editKey }, { status: 201 });
+  } catch (error) {
+    console.error('Error saving embed:', error);
+    return NextResponse.json({ error: 'Failed to save embed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { loadEmbedCalendarName } from '../../lib/calendars';
+import { embedConfigFromUrl, oembedResponse, requestOrigin } from '../../lib/oembed';
+
+// oEmbed provider endpoint for this site's /embed and /embed/<id> links.
+// Only the JSON format is offered; `maxwidth` and `maxheight` cap the
+// iframe's size. Links that aren't embeds of this site get a 404, as the
+// spec asks.
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const input = searchParams.get('url');
+
+  if (!input) {
+    return NextResponse.json({ error: 'url is required' }, { status: 400 });
+  }
+
+  const format = searchParams.get('format');
+  if (format && format !== 'json') {
+    return NextResponse.json({ error: 'Only the json format is supported' }, { status: 501 });
+  }
+
+  const origin = await requestOrigin();
+  if (!origin) {
+    return NextResponse.json({ error: 'Invalid host' }, { status: 400 });
+  }
+
+  let url: URL;
+  try {
+    url = new URL(input);
+  } catch {
+    return NextResponse.json({ error: 'url must be an absolute URL' }, { status: 400 });
+  }
+
+  const config = url.host === new URL(origin).host ? await embedConfigFromUrl(url) : null;
+  if (!config?.calendarUrl) {
+    return NextResponse.json({ error: 'Not a calendar embed URL' }, { status: 404 });
+  }
+
+  // The title is the calendar's name, when it loads
+  const title = await loadEmbedCalendarName(config);
+
+  return NextResponse.json(
+    oembedResponse(url.toString(), config, {
+      origin,
+      title: title || undefined,
+      maxWidth: Number(searchParams.get('maxwidth')) || undefined,
+      maxHeight: Number(searchParams.get('maxheight')) || undefined,
+    }),
+    { headers: { 'Cache-Control': 'public, max-age=3600' } }
+  );
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { registerSecretSource } from '../../lib/secrets';
+import { CalendarSourceError, fetchCalendarSource } from '../../lib/sources';
+import { parseCalendarSource, secretSourceRef } from '../../types';
+
+// Register a secret iCal address. Returns a `secret:<id>` reference that
+// can be used anywhere a calendar URL is accepted.
+export async function POST(request: NextRequest) {
+  let url: unknown;
+  try {
+    ({ url } = await request.json());
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const source = typeof url === 'string' ? parseCalendarSource(url) : null;
+
+  if (!source || source.provider === 'secret') {
+    return NextResponse.json(
+      { error: 'Invalid calendar ID or URL format' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    // Make sure the address works before handing out an ID for it
+    await fetchCalendarSource(source);
+
+    const id = await registerSecretSource((url as string).trim());
+    return NextResponse.json({ id, source: secretSourceRef(id) }, { status: 201 });
+  } catch (error) {
+    if (error instanceof CalendarSourceError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Error registering calendar:', error);
+    return NextResponse.json(
+      { error: 'Failed to register calendar' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,305 @@
+'use client';
+
+import { ReactNode } from 'react';
+import { motion } from 'motion/react';
+import { CalendarSourceInfo } from '../api/calendar/route';
+import { CalendarConfig, CalendarSourceConfig, EventColorRule, EventTabGroup } from '../types';
+import { formatTimeZone, getTimeZones, getViewerTimeZone, hexToRgba } from './calendar-utils';
+import { CalendarI18n } from './i18n';
+
+interface CalendarHeaderProps {
+  config: CalendarConfig;
+  i18n: CalendarI18n;
+  title: string;
+  actions?: ReactNode;             // Links at the end of the title bar
+  search?: ReactNode;              // Search box, shown when config.showSearch
+  children?: ReactNode;            // The view's navigation, shown when config.showNavigation
+  tabs: EventTabGroup[];
+  activeTab: EventTabGroup | null;
+  onSelectTab: (tab: EventTabGroup | null) => void;
+  sources: CalendarSourceConfig[];
+  calendars?: CalendarSourceInfo[];
+  calendarName?: string;
+  hiddenSources: Set<string>;
+  onToggleSource: (sourceId: string) => void;
+  timeZone: string;
+  calendarTimeZone?: string;
+  onTimeZoneChange: (timeZone: string) => void;
+  accentColor: string;
+  textColor: string;
+  bgColor: string;
+  borderColor: string;
+}
+
+// Everything above a view's grid or list, the same in every view: title
+// bar, search box, the view's navigation, category tabs, legends and
+// timezone bar, each shown as the config asks
+export default function CalendarHeader({
+  config,
+  i18n,
+  title,
+  actions,
+  search,
+  children,
+  tabs,
+  activeTab,
+  onSelectTab,
+  sources,
+  calendars,
+  calendarName,
+  hiddenSources,
+  onToggleSource,
+  timeZone,
+  calendarTimeZone,
+  onTimeZoneChange,
+  accentColor,
+  textColor,
+  bgColor,
+  borderColor,
+}: CalendarHeaderProps) {
+  return (
+    <>
+      {/* Header */}
+      {config.showTitle && (
+        <motion.div
+          className="px-6 py-4 flex items-center justify-between gap-4"
+          style={{ backgroundColor: accentColor }}
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ type: "spring", stiffness: 300, damping: 25 }}
+        >
+          <h2 className="text-lg font-semibold text-white truncate">{title}</h2>
+          {actions}
+        </motion.div>
+      )}
+
+      {/* Search */}
+      {config.showSearch && search}
+
+      {/* Navigation */}
+      {config.showNavigation && children}
+
+      {/* Category Tabs */}
+      {config.showTabs && tabs.length > 0 && (
+        <CategoryTabs
+          tabs={tabs}
+          activeTab={activeTab}
+          onSelect={onSelectTab}
+          allLabel={i18n.messages.allTab}
+          accentColor={accentColor}
+          textColor={textColor}
+          borderColor={borderColor}
+        />
+      )}
+
+      {/* Calendar Legend */}
+      {config.showCalendars && sources.length > 1 && (
+        <CalendarLegend
+          sources={sources}
+          calendars={calendars}
+          calendarName={calendarName}
+          fallbackName={i18n.messages.calendar}
+          hiddenSources={hiddenSources}
+          onToggle={onToggleSource}
+          textColor={textColor}
+          borderColor={borderColor}
+        />
+      )}
+
+      {/* Color Legend */}
+      {config.showColorLegend && config.colorRules.length > 0 && (
+        <ColorLegend rules={config.colorRules} textColor={textColor} borderColor={borderColor} />
+      )}
+
+      {/* Timezone */}
+      {config.showTimezone && (
+        <TimeZoneBar
+          timeZone={timeZone}
+          calendarTimeZone={calendarTimeZone}
+          onChange={onTimeZoneChange}
+          i18n={i18n}
+          textColor={textColor}
+          bgColor={bgColor}
+          borderColor={borderColor}
+        />
+      )}
+    </>
+  );
+}
+
+// Tab bar limiting the events to one category or tab group, after "All"
+function CategoryTabs({
+  tabs,
+  activeTab,
+  onSelect,
+  allLabel,
+  accentColor,
+  textColor,
+  borderColor,
+}: {
+  tabs: EventTabGroup[];
+  activeTab: EventTabGroup | null;
+  onSelect: (tab: EventTabGroup | null) => void;
+  allLabel: string;
+  accentColor: string;
+  textColor: string;
+  borderColor: string;
+}) {
+  return (
+    <div role="tablist" className="flex gap-1 overflow-x-auto px-4 border-b" style={{ borderColor }}>
+      {[null, ...tabs].map(tab => {
+        const selected = tab === activeTab;
+
+        return (
+          <button
+            key={tab?.id ?? 'all'}
+            role="tab"
+            aria-selected={selected}
+            onClick={() => onSelect(tab)}
+            className="flex-shrink-0 px-3 py-2 -mb-px text-sm border-b-2 transition-colors"
+            style={{
+              borderColor: selected ? accentColor : 'transparent',
+              color: selected ? accentColor : textColor,
+              opacity: selected ? 1 : 0.7,
+              fontWeight: selected ? 600 : 400,
+            }}
+          >
+            {tab ? tab.label : allLabel}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+// Legend listing each calendar, clicking one toggles its events
+function CalendarLegend({
+  sources,
+  calendars,
+  calendarName,
+  fallbackName,
+  hiddenSources,
+  onToggle,
+  textColor,
+  borderColor,
+}: {
+  sources: CalendarSourceConfig[];
+  calendars?: CalendarSourceInfo[];
+  calendarName?: string;
+  fallbackName: string;
+  hiddenSources: Set<string>;
+  onToggle: (sourceId: string) => void;
+  textColor: string;
+  borderColor: string;
+}) {
+  return (
+    <div className="flex flex-wrap items-center gap-2 px-4 py-2 border-b" style={{ borderColor }}>
+      {sources.map(source => {
+        const info = calendars?.find(calendar => calendar.sourceId === source.id);
+        const name = source.name || info?.summary || (source.id === 'primary' ? calendarName : '') || fallbackName;
+        const hidden = hiddenSources.has(source.id);
+
+        return (
+          <motion.button
+            key={source.id}
+            onClick={() => onToggle(source.id)}
+            className="flex items-center gap-1.5 px-2.5 py-1 text-xs rounded-full border"
+            style={{ borderColor, color: textColor, opacity: hidden ? 0.4 : 1 }}
+            title={info?.error}
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+          >
+            <span
+              className="w-2.5 h-2.5 rounded-full"
+              style={{ backgroundColor: hidden ? 'transparent' : source.color, border: `2px solid ${source.color}` }}
+            />
+            <span className={hidden ? 'line-through' : ''}>{name}</span>
+          </motion.button>
+        );
+      })}
+    </div>
+  );
+}
+
+// Legend explaining what each color rule's color means
+function ColorLegend({
+  rules,
+  textColor,
+  borderColor,
+}: {
+  rules: EventColorRule[];
+  textColor: string;
+  borderColor: string;
+}) {
+  return (
+    <div className="flex flex-wrap items-center gap-x-4 gap-y-1 px-4 py-2 border-b text-xs" style={{ borderColor, color: textColor }}>
+      {rules.map(rule => (
+        <span key={rule.id} className="flex items-center gap-1.5">
+          <span
+            className="w-3 h-3 rounded-sm"
+            style={{
+              backgroundColor: hexToRgba(rule.color, rule.opacity),
+              borderLeft: `3px solid ${rule.borderColor}`,
+            }}
+          />
+          {rule.label || rule.value}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+// Shows which zone times are in, with a menu to switch to another
+function TimeZoneBar({
+  timeZone,
+  calendarTimeZone,
+  onChange,
+  i18n,
+  textColor,
+  bgColor,
+  borderColor,
+}: {
+  timeZone: string;
+  calendarTimeZone?: string;
+  onChange: (timeZone: string) => void;
+  i18n: CalendarI18n;
+  textColor: string;
+  bgColor: string;
+  borderColor: string;
+}) {
+  const viewerTimeZone = getViewerTimeZone();
+  const { messages } = i18n;
+
+  return (
+    <div className="flex items-center gap-2 px-4 py-2 border-b text-xs" style={{ borderColor, color: textColor }}>
+      <svg className="w-4 h-4 flex-shrink-0 opacity-60" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 12a9 9 0 01-9 9m9-9a9 9 0 00-9-9m9 9H3m9 9a9 9 0 01-9-9m9 9c1.657 0 3-4.03 3-9s-1.343-9-3-9m0 18c-1.657 0-3-4.03-3-9s1.343-9 3-9m-9 9a9 9 0 019-9" />
+      </svg>
+      <label htmlFor="calendar-timezone" className="opacity-60">{messages.timeZone}</label>
+      <select
+        id="calendar-timezone"
+        value={timeZone}
+        onChange={e => onChange(e.target.value)}
+        className="min-w-0 flex-1 truncate rounded border px-1.5 py-0.5"
+        style={{ backgroundColor: bgColor, borderColor, color: textColor }}
+      >
+        <option value={viewerTimeZone}>
+          {messages.viewerTimeZone} · {formatTimeZone(viewerTimeZone, i18n.locale)}
+        </option>
+        {calendarTimeZone && calendarTimeZone !== viewerTimeZone && (
+          <option value={calendarTimeZone}>
+            {messages.calendarTimeZone} · {formatTimeZone(calendarTimeZone, i18n.locale)}
+          </option>
+        )}
+        {timeZone !== viewerTimeZone && timeZone !== calendarTimeZone && (
+          <option value={timeZone}>{formatTimeZone(timeZone, i18n.locale)}</option>
+        )}
+        <optgroup label="—">
+          {getTimeZones().map(zone => (
+            <option key={zone} value={zone}>{zone.replace(/_/g, ' ')}</option>
+          ))}
+        </optgroup>
+      </select>
+    </div>
+  );
+}
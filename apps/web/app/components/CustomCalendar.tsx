@@ -1,155 +1,64 @@
 'use client';
 
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useRef, useCallback, useEffect } from 'react';
 import { motion, AnimatePresence } from 'motion/react';
-import { CalendarEvent } from '../api/calendar/route';
-import { CalendarConfig } from '../types';
-
-// Helper function to convert hex color and opacity percentage to rgba
-function hexToRgba(hex: string, opacity: number): string {
-  // Remove # if present
-  hex = hex.replace('#', '');
-  
-  // Handle shorthand hex (e.g., #fff)
-  if (hex.length === 3) {
-    hex = hex[0] + hex[0] + hex[1] + hex[1] + hex[2] + hex[2];
-  }
-  
-  // Parse RGB values
-  const r = parseInt(hex.substring(0, 2), 16) || 0;
-  const g = parseInt(hex.substring(2, 4), 16) || 0;
-  const b = parseInt(hex.substring(4, 6), 16) || 0;
-  
-  // Convert opacity percentage (0-100) to alpha (0-1)
-  const alpha = Math.max(0, Math.min(100, opacity)) / 100;
-  
-  return `rgba(${r}, ${g}, ${b}, ${alpha})`;
-}
-
-// Helper function to determine if text should be light or dark based on background
-function getContrastTextColor(hexColor: string, opacity: number): string {
-  // Remove # if present
-  const hex = hexColor.replace('#', '');
-  
-  // Handle shorthand hex
-  const fullHex = hex.length === 3 
-    ? hex[0] + hex[0] + hex[1] + hex[1] + hex[2] + hex[2]
-    : hex;
-  
-  const r = parseInt(fullHex.substring(0, 2), 16) || 0;
-  const g = parseInt(fullHex.substring(2, 4), 16) || 0;
-  const b = parseInt(fullHex.substring(4, 6), 16) || 0;
-  
-  // Calculate relative luminance
-  const luminance = (0.299 * r + 0.587 * g + 0.114 * b) / 255;
-  
-  // If opacity is high enough and background is dark, use white text
-  // If opacity is low, use the event color itself for better visibility
-  if (opacity >= 60) {
-    return luminance > 0.5 ? '#000000' : '#ffffff';
-  } else {
-    // For lower opacity, use a darker version of the event color or the color itself
-    return hexColor;
-  }
-}
+import { CalendarEvent, CalendarSourceInfo } from '../api/calendar/route';
+import { CalendarConfig, calendarFeedUrl, EventTabGroup, getCalendarSources, VIEW_MODES } from '../types';
+import { useEventSearch } from '../hooks/useEventSearch';
+import { useHashParam } from '../hooks/useHashParam';
+import { useHydrated } from '../hooks/useHydrated';
+import { searchEvents } from '../lib/search';
+import { AddToCalendarLinks, getAddToCalendarLinks } from './add-to-calendar';
+import {
+  eventSpansDay,
+  eventStartsOnDay,
+  formatAgendaDay,
+  formatDate,
+  eventInTimeZone,
+  formatDateKey,
+  formatTime,
+  formatTimeZone,
+  getDayNames,
+  getMonthName,
+  getMonthWeeks,
+  getEventEndDate,
+  getEventStartDate,
+  getViewerTimeZone,
+  isSameDay,
+  matchesEventRule,
+  parseDateKey,
+  resolveEventColors,
+  resolveTimeZone,
+  toZonedTime,
+} from './calendar-utils';
+import CalendarHeader from './CalendarHeader';
+import DayEventsPopover from './DayEventsPopover';
+import EventSearch from './EventSearch';
+import { CalendarI18n, getCalendarI18n } from './i18n';
+import MonthOverview from './MonthOverview';
+import { renderPrintableCalendar } from './print-layout';
+import TimeGrid from './TimeGrid';
 
 interface CustomCalendarProps {
   events: CalendarEvent[];
   config: CalendarConfig;
   calendarName?: string;
+  calendarTimeZone?: string;       // The primary calendar's zone, for displayTimeZone 'calendar'
+  calendars?: CalendarSourceInfo[];
   loading?: boolean;
   error?: string | null;
+  // Agenda pagination: load the next window of events
+  onLoadMore?: () => void;
+  loadingMore?: boolean;
+  hasMore?: boolean;
+  // When the server rendered the embed, so hydration sees the same "today"
+  serverNow?: number;
 }
 
-// Helper functions
-function getDaysInMonth(year: number, month: number): number {
-  return new Date(year, month + 1, 0).getDate();
-}
-
-function getFirstDayOfMonth(year: number, month: number): number {
-  return new Date(year, month, 1).getDay();
-}
-
-function formatTime(dateString: string): string {
-  const date = new Date(dateString);
-  return date.toLocaleTimeString('en-US', { 
-    hour: 'numeric', 
-    minute: '2-digit',
-    hour12: true 
-  });
-}
-
-function formatDate(dateString: string): string {
-  const date = new Date(dateString);
-  return date.toLocaleDateString('en-US', { 
-    weekday: 'short',
-    month: 'short', 
-    day: 'numeric' 
-  });
-}
-
-function isSameDay(date1: Date, date2: Date): boolean {
-  return date1.getFullYear() === date2.getFullYear() &&
-         date1.getMonth() === date2.getMonth() &&
-         date1.getDate() === date2.getDate();
-}
-
-// Get event start date as Date object
-function getEventStartDate(event: CalendarEvent): Date {
-  if (event.start.dateTime) {
-    return new Date(event.start.dateTime);
-  } else if (event.start.date) {
-    return new Date(event.start.date + 'T00:00:00');
-  }
-  return new Date();
-}
-
-// Get event end date as Date object
-function getEventEndDate(event: CalendarEvent): Date {
-  if (event.end?.dateTime) {
-    return new Date(event.end.dateTime);
-  } else if (event.end?.date) {
-    // For all-day events, end date is exclusive
-    const endDate = new Date(event.end.date + 'T00:00:00');
-    endDate.setDate(endDate.getDate() - 1);
-    return endDate;
-  }
-  return getEventStartDate(event);
-}
-
-// Check if event spans this day
-function eventSpansDay(event: CalendarEvent, targetDate: Date): boolean {
-  const eventStart = getEventStartDate(event);
-  const eventEnd = getEventEndDate(event);
-  
-  const targetStart = new Date(targetDate);
-  targetStart.setHours(0, 0, 0, 0);
-  
-  const targetEnd = new Date(targetDate);
-  targetEnd.setHours(23, 59, 59, 999);
-  
-  const eventStartDay = new Date(eventStart);
-  eventStartDay.setHours(0, 0, 0, 0);
-  
-  const eventEndDay = new Date(eventEnd);
-  eventEndDay.setHours(23, 59, 59, 999);
-  
-  return targetStart <= eventEndDay && targetEnd >= eventStartDay;
+function dayKey(date: Date): string {
+  return `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
 }
 
-// Check if event starts on this day
-function eventStartsOnDay(event: CalendarEvent, targetDate: Date): boolean {
-  const eventStart = getEventStartDate(event);
-  return isSameDay(eventStart, targetDate);
-}
-
-const MONTH_NAMES = [
-  'January', 'February', 'March', 'April', 'May', 'June',
-  'July', 'August', 'September', 'October', 'November', 'December'
-];
-
-const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
-
 // Animation variants
 const containerVariants = {
   hidden: { opacity: 0 },
@@ -189,50 +98,229 @@ const slideVariants = {
   }),
 };
 
-export default function CustomCalendar({ events, config, calendarName, loading, error }: CustomCalendarProps) {
-  const [currentDate, setCurrentDate] = useState(new Date());
-  const [selectedEvent, setSelectedEvent] = useState<CalendarEvent | null>(null);
+export default function CustomCalendar({
+  events: allEvents,
+  config,
+  calendarName,
+  calendarTimeZone,
+  calendars,
+  loading,
+  error,
+  onLoadMore,
+  loadingMore,
+  hasMore,
+  serverNow,
+}: CustomCalendarProps) {
+  // The shown date, view and open event are kept in the URL hash
+  // (#date=2026-10-05&view=week&event=<id>) so links and reloads restore them
+  const [dateParam, setDateParam] = useHashParam('date');
+  const [viewParam, setViewParam] = useHashParam('view');
+  const [eventParam, setEventParam] = useHashParam('event');
+
+  const setCurrentDate = useCallback((date: Date) => setDateParam(formatDateKey(date)), [setDateParam]);
   const [direction, setDirection] = useState(0);
+  const [hiddenSources, setHiddenSources] = useState<Set<string>>(new Set());
 
-  const currentMonth = currentDate.getMonth();
-  const currentYear = currentDate.getFullYear();
+  // Locale, clock and week start for formatting, plus the UI strings
+  const i18n = useMemo(
+    () => getCalendarI18n({ locale: config.locale, hour12: config.hour12, weekStartsOn: config.weekStartsOn }),
+    [config.locale, config.hour12, config.weekStartsOn]
+  );
+  const { messages } = i18n;
+
+  // Server-rendered embeds start out as the HTML the server sent. Until that
+  // has hydrated, nothing animates in and nothing depends on the browser.
+  const hydrated = useHydrated();
+
+  // Zone times are shown in: the viewer's pick from the timezone menu, else
+  // the configured one. Events and "today" are shifted into it. The server
+  // can't know the viewer's zone and renders the calendar's.
+  const [pickedTimeZone, setPickedTimeZone] = useState<string | null>(null);
+  const timeZone = resolveTimeZone(
+    pickedTimeZone,
+    config.displayTimeZone === 'calendar' ? calendarTimeZone
+      : config.displayTimeZone === 'viewer' ? (hydrated ? undefined : calendarTimeZone || 'UTC')
+      : config.displayTimeZone
+  );
+  const zonedNow = useCallback(() => toZonedTime(new Date(), timeZone), [timeZone]);
+
+  // "Now" for rendering, in the display zone: the server's time until the
+  // page has hydrated, so both pick the same today, then the browser's clock,
+  // moved on every minute
+  const [clock, setClock] = useState(() => new Date());
+  useEffect(() => {
+    const interval = setInterval(() => setClock(new Date()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+  const now = useMemo(
+    () => toZonedTime(hydrated || serverNow === undefined ? clock : new Date(serverNow), timeZone),
+    [hydrated, serverNow, clock, timeZone]
+  );
+
+  // Without a date in the link the view opens on today
+  const todayKey = formatDateKey(now);
+  const currentDate = useMemo(() => parseDateKey(dateParam) ?? parseDateKey(todayKey)!, [dateParam, todayKey]);
+
+  // Day whose "+N more" popover is open
+  const [overflowDay, setOverflowDay] = useState<Date | null>(null);
+  const closeOverflowDay = useCallback(() => setOverflowDay(null), []);
+
+  // Event rows per day cell; the rest collapse into "+N more"
+  const maxEventRows = Math.max(1, Math.round(config.maxEventRows) || 3);
+  const cellMinHeight = Math.max(100, 32 + maxEventRows * 24 + 24);
+
+  // A view other than the configured one, from a link or from clicking a day
+  // in the year/multi-month views, until the configured view mode changes
+  const viewOverride = VIEW_MODES.find(mode => mode === viewParam && mode !== config.viewMode) ?? null;
+  const configuredViewMode = useRef(config.viewMode);
+  useEffect(() => {
+    if (configuredViewMode.current === config.viewMode) return;
+    configuredViewMode.current = config.viewMode;
+    setViewParam(null);
+  }, [config.viewMode, setViewParam]);
+  const viewMode = viewOverride ?? config.viewMode;
+
+  // Agenda: pages of agendaMaxEvents shown so far, and day groups to scroll to
+  const [agendaPages, setAgendaPages] = useState(1);
+  const agendaListRef = useRef<HTMLDivElement>(null);
+  const agendaDayRefs = useRef(new Map<string, HTMLDivElement>());
+
+  // Scroll the agenda to the first day on or after the given one
+  const scrollAgendaTo = useCallback((date: Date, smooth = true) => {
+    const list = agendaListRef.current;
+    if (!list) return;
+
+    const day = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    const groups = Array.from(agendaDayRefs.current.values()).sort((a, b) => a.offsetTop - b.offsetTop);
+    const target = groups.find(group => Number(group.dataset.date) >= day.getTime());
+
+    list.scrollTo({ top: target ? target.offsetTop : list.scrollHeight, behavior: smooth ? 'smooth' : 'auto' });
+  }, []);
 
-  // Generate calendar weeks with spanning event info
-  const calendarWeeks = useMemo(() => {
-    const daysInMonth = getDaysInMonth(currentYear, currentMonth);
-    const firstDay = getFirstDayOfMonth(currentYear, currentMonth);
-    const weeks: Array<Array<{ day: number | null; date: Date | null }>> = [];
-    
-    let currentWeek: Array<{ day: number | null; date: Date | null }> = [];
-    
-    // Add empty cells for days before the first day of the month
-    for (let i = 0; i < firstDay; i++) {
-      currentWeek.push({ day: null, date: null });
+  const scrollAgendaToToday = useCallback(
+    (smooth = true) => scrollAgendaTo(zonedNow(), smooth),
+    [scrollAgendaTo, zonedNow]
+  );
+
+  // Start the agenda at a linked date, or at today when it has past days,
+  // rather than at the oldest event
+  useEffect(() => {
+    if (viewMode !== 'agenda' || loading) return;
+    if (dateParam) {
+      scrollAgendaTo(currentDate, false);
+    } else if (config.agendaDaysBehind > 0) {
+      scrollAgendaToToday(false);
     }
-    
-    // Add the days of the month
-    for (let day = 1; day <= daysInMonth; day++) {
-      currentWeek.push({ 
-        day, 
-        date: new Date(currentYear, currentMonth, day) 
-      });
-      
-      if (currentWeek.length === 7) {
-        weeks.push(currentWeek);
-        currentWeek = [];
+  }, [viewMode, dateParam, currentDate, config.agendaDaysBehind, loading, scrollAgendaTo, scrollAgendaToToday]);
+
+  const sources = useMemo(() => getCalendarSources(config), [config]);
+
+  // webcal:// link to the embed's feed, shown in the header
+  const subscribeUrl = config.showSubscribe && hydrated
+    ? calendarFeedUrl(config, window.location.origin)
+    : null;
+
+  // Agenda events are revealed a page at a time
+  const pageSize = Math.max(1, Math.round(config.agendaMaxEvents) || 25);
+
+  // The open event as the API sent it, which add-to-calendar links are built
+  // from, and as shown in the display zone
+  const linkedEvent = useMemo(
+    () => (eventParam ? allEvents.find(event => event.id === eventParam) ?? null : null),
+    [eventParam, allEvents]
+  );
+  const selectedEvent = useMemo(
+    () => linkedEvent && (timeZone === getViewerTimeZone() ? linkedEvent : eventInTimeZone(linkedEvent, timeZone)),
+    [linkedEvent, timeZone]
+  );
+  const selectedEventLinks = useMemo(() => {
+    if (!linkedEvent) return null;
+    const source = sources.find(source => source.id === (linkedEvent.sourceId ?? 'primary'));
+    return getAddToCalendarLinks(linkedEvent, source?.url);
+  }, [linkedEvent, sources]);
+
+  const openEvent = (event: CalendarEvent) => setEventParam(event.id);
+  const closeEvent = () => setEventParam(null);
+
+  // A link to just an event shows the day it's on, once the events are in
+  const restoredLink = useRef(false);
+  useEffect(() => {
+    if (loading || restoredLink.current) return;
+    restoredLink.current = true;
+    if (selectedEvent && !dateParam) setCurrentDate(getEventStartDate(selectedEvent));
+  }, [loading, selectedEvent, dateParam, setCurrentDate]);
+
+  // Header tabs: the configured groups, or one per event category. The open
+  // tab is kept in the URL hash (#tab=<label>) so links and the host page can
+  // open it, which filters events even when the tabs aren't shown.
+  const tabs = useMemo<EventTabGroup[]>(() => {
+    const groups = config.tabGroups.filter(group => group.label);
+    if (groups.length > 0) return groups;
+    const categories = [...new Set(allEvents.flatMap(event => event.categories ?? []))];
+    return categories
+      .sort((a, b) => a.localeCompare(b, i18n.locale))
+      .map(category => ({ id: category, label: category, field: 'category', value: category }));
+  }, [config.tabGroups, allEvents, i18n.locale]);
+  const [tabParam, setTabParam] = useHashParam('tab');
+  const activeTab = tabs.find(tab => tab.label === tabParam) ?? null;
+
+  // Events from calendars toggled off in the legend, or outside the open tab,
+  // are left out of every view. Times arrive in the browser's zone and are
+  // only shifted for another one.
+  const prepareEvents = useCallback((list: CalendarEvent[]) => {
+    const visible = list.filter(event =>
+      (!event.sourceId || !hiddenSources.has(event.sourceId)) &&
+      (!activeTab || matchesEventRule(activeTab, event))
+    );
+    return timeZone === getViewerTimeZone() ? visible : visible.map(event => eventInTimeZone(event, timeZone));
+  }, [hiddenSources, activeTab, timeZone]);
+  const events = useMemo(() => prepareEvents(allEvents), [prepareEvents, allEvents]);
+
+  // Search box results: matches from /api/calendar, or from the loaded events
+  // while that request is on its way
+  const [searchQuery, setSearchQuery] = useState('');
+  const search = useEventSearch(config, config.showSearch ? searchQuery : '');
+  const searchResults = useMemo(
+    () => prepareEvents(search.searching ? searchEvents(allEvents, searchQuery) : search.results),
+    [prepareEvents, search.searching, search.results, allEvents, searchQuery]
+  );
+
+  const toggleSource = (sourceId: string) => {
+    setHiddenSources(prev => {
+      const next = new Set(prev);
+      if (next.has(sourceId)) {
+        next.delete(sourceId);
+      } else {
+        next.add(sourceId);
       }
-    }
-    
-    // Fill remaining days in the last week
-    while (currentWeek.length > 0 && currentWeek.length < 7) {
-      currentWeek.push({ day: null, date: null });
-    }
-    if (currentWeek.length > 0) {
-      weeks.push(currentWeek);
-    }
-    
-    return weeks;
-  }, [currentMonth, currentYear]);
+      return next;
+    });
+  };
+
+  const getEventColors = (event: CalendarEvent) => resolveEventColors(event, config, sources);
+
+  const currentMonth = currentDate.getMonth();
+  const currentYear = currentDate.getFullYear();
+
+  // Generate calendar weeks for the month view
+  const calendarWeeks = useMemo(
+    () => getMonthWeeks(currentYear, currentMonth, i18n.weekStartsOn),
+    [currentMonth, currentYear, i18n.weekStartsOn]
+  );
+
+  // Days shown by the day and week time grids
+  const timeGridDays = useMemo(() => {
+    const start = new Date(currentDate);
+    start.setHours(0, 0, 0, 0);
+    if (viewMode === 'day') return [start];
+
+    start.setDate(start.getDate() - ((start.getDay() - i18n.weekStartsOn + 7) % 7));
+    return Array.from({ length: 7 }).map((_, i) => {
+      const day = new Date(start);
+      day.setDate(start.getDate() + i);
+      return day;
+    });
+  }, [currentDate, viewMode, i18n.weekStartsOn]);
 
   // Get spanning events for a specific week
   const getWeekEvents = (weekStartDate: Date, weekEndDate: Date) => {
@@ -280,21 +368,104 @@ export default function CustomCalendar({ events, config, calendarName, loading,
     setCurrentDate(newDate);
   };
 
+  const goToPreviousDay = () => {
+    setDirection(-1);
+    const newDate = new Date(currentDate);
+    newDate.setDate(currentDate.getDate() - 1);
+    setCurrentDate(newDate);
+  };
+
+  const goToNextDay = () => {
+    setDirection(1);
+    const newDate = new Date(currentDate);
+    newDate.setDate(currentDate.getDate() + 1);
+    setCurrentDate(newDate);
+  };
+
+  // Year and multi-month views move by the number of months they show
+  const overviewMonthCount = viewMode === 'year' ? 12 : Math.min(Math.max(Math.round(config.monthCount) || 3, 2), 6);
+
+  const goToPreviousMonths = () => {
+    setDirection(-1);
+    setCurrentDate(new Date(currentYear, currentMonth - overviewMonthCount, 1));
+  };
+
+  const goToNextMonths = () => {
+    setDirection(1);
+    setCurrentDate(new Date(currentYear, currentMonth + overviewMonthCount, 1));
+  };
+
   const goToToday = () => {
     setDirection(0);
-    setCurrentDate(new Date());
+    setCurrentDate(zonedNow());
+  };
+
+  // Show the day of a picked search result in the current view
+  const goToEvent = (event: CalendarEvent) => {
+    const date = getEventStartDate(event);
+    setSearchQuery('');
+    setDirection(0);
+    setCurrentDate(date);
+    if (viewMode === 'agenda') scrollAgendaTo(date);
+  };
+
+  // Print what the view shows through a hidden frame holding the plain
+  // print layout, so nothing animated or interactive ends up on paper
+  const printCalendar = () => {
+    let start: Date;
+    let end: Date;
+    let layout: 'month' | 'list' = 'list';
+
+    if (viewMode === 'month' || viewMode === 'year' || viewMode === 'multiMonth') {
+      const months = viewMode === 'month' ? 1 : overviewMonthCount;
+      start = new Date(currentYear, currentMonth, 1);
+      end = new Date(currentYear, currentMonth + months, 0);
+      layout = 'month';
+    } else if (viewMode === 'week' || viewMode === 'day') {
+      start = timeGridDays[0];
+      end = timeGridDays[timeGridDays.length - 1];
+    } else {
+      const shown = events.slice(0, pageSize * agendaPages);
+      start = shown.length > 0 ? getEventStartDate(shown[0]) : zonedNow();
+      end = shown.length > 0 ? getEventStartDate(shown[shown.length - 1]) : start;
+    }
+
+    const frame = document.createElement('iframe');
+    frame.setAttribute('aria-hidden', 'true');
+    frame.style.cssText = 'position: fixed; width: 0; height: 0; border: 0; visibility: hidden;';
+    frame.srcdoc = renderPrintableCalendar(events, {
+      title: calendarName || messages.calendar,
+      start,
+      end,
+      layout,
+      i18n,
+      subtitle: config.showTimezone ? formatTimeZone(timeZone, i18n.locale) : undefined,
+      eventColor: event => getEventColors(event).borderColor,
+    });
+    frame.onload = () => {
+      const printWindow = frame.contentWindow;
+      if (!printWindow) return;
+      printWindow.addEventListener('afterprint', () => frame.remove());
+      printWindow.print();
+    };
+    document.body.appendChild(frame);
+  };
+
+  const openMonth = (date: Date) => {
+    setDirection(0);
+    setCurrentDate(date);
+    setViewParam('month');
   };
 
   const isToday = (day: number): boolean => {
-    const today = new Date();
-    return today.getDate() === day && 
-           today.getMonth() === currentMonth && 
-           today.getFullYear() === currentYear;
+    return now.getDate() === day && 
+           now.getMonth() === currentMonth && 
+           now.getFullYear() === currentYear;
   };
 
   // Styles based on config with dark theme defaults
   const isDark = config.theme === 'dark' || 
-    (config.theme === 'auto' && typeof window !== 'undefined' && window.matchMedia('(prefers-color-scheme: dark)').matches);
+    (config.theme === 'auto' && hydrated && window.matchMedia('(prefers-color-scheme: dark)').matches);
 
   const bgColor = config.backgroundColor || (isDark ? '#0a0a0a' : '#ffffff');
   const textColor = config.textColor || (isDark ? '#ededed' : '#1a1a1a');
@@ -315,6 +486,71 @@ export default function CustomCalendar({ events, config, calendarName, loading,
     overflow: 'hidden',
   };
 
+  // Subscribe and print links at the end of the header
+  const headerActions = (subscribeUrl || config.showPrint) && (
+    <div className="flex flex-shrink-0 items-center gap-2">
+      {subscribeUrl && (
+        <a
+          href={subscribeUrl}
+          className="px-3 py-1 text-xs font-medium rounded-lg bg-white/20 text-white hover:bg-white/30"
+        >
+          {messages.subscribe}
+        </a>
+      )}
+      {config.showPrint && (
+        <button
+          onClick={printCalendar}
+          className="px-3 py-1 text-xs font-medium rounded-lg bg-white/20 text-white hover:bg-white/30"
+        >
+          {messages.print}
+        </button>
+      )}
+    </div>
+  );
+
+  // Search box under the title bar
+  const searchBox = (
+    <EventSearch
+      query={searchQuery}
+      onQueryChange={setSearchQuery}
+      results={searchResults}
+      searching={search.searching}
+      error={search.error}
+      today={now}
+      i18n={i18n}
+      getEventColors={getEventColors}
+      onSelect={goToEvent}
+      textColor={textColor}
+      bgColor={bgColor}
+      borderColor={borderColor}
+      accentColor={accentColor}
+    />
+  );
+
+  // Shared by every view; each passes its navigation as children
+  const headerProps = {
+    config,
+    i18n,
+    title: calendarName || messages.calendar,
+    actions: headerActions,
+    search: searchBox,
+    tabs,
+    activeTab,
+    onSelectTab: (tab: EventTabGroup | null) => setTabParam(tab?.label ?? null),
+    sources,
+    calendars,
+    calendarName,
+    hiddenSources,
+    onToggleSource: toggleSource,
+    timeZone,
+    calendarTimeZone,
+    onTimeZoneChange: setPickedTimeZone,
+    accentColor,
+    textColor,
+    bgColor,
+    borderColor,
+  };
+
   if (loading) {
     return (
       <motion.div 
@@ -337,7 +573,7 @@ export default function CustomCalendar({ events, config, calendarName, loading,
             animate={{ opacity: 0.7 }}
             transition={{ delay: 0.2 }}
           >
-            Loading calendar...
+            {messages.loading}
           </motion.p>
         </div>
       </motion.div>
@@ -370,7 +606,7 @@ export default function CustomCalendar({ events, config, calendarName, loading,
             animate={{ opacity: 1, y: 0 }}
             transition={{ delay: 0.2 }}
           >
-            Failed to load calendar
+            {messages.loadFailed}
           </motion.p>
           <motion.p 
             className="text-sm opacity-70"
@@ -385,8 +621,18 @@ export default function CustomCalendar({ events, config, calendarName, loading,
     );
   }
 
-  // Render Month View with spanning events
-  if (config.viewMode === 'month') {
+  // Render Year and Multi-Month overviews
+  if (viewMode === 'year' || viewMode === 'multiMonth') {
+    const isYearView = viewMode === 'year';
+    const firstMonth = isYearView ? new Date(currentYear, 0, 1) : new Date(currentYear, currentMonth, 1);
+    const months = Array.from({ length: overviewMonthCount }).map((_, i) =>
+      new Date(firstMonth.getFullYear(), firstMonth.getMonth() + i, 1)
+    );
+    const lastMonth = months[months.length - 1];
+    const rangeTitle = isYearView
+      ? String(currentYear)
+      : `${getMonthName(firstMonth.getMonth(), i18n.locale)}${firstMonth.getFullYear() !== lastMonth.getFullYear() ? ` ${firstMonth.getFullYear()}` : ''} – ${getMonthName(lastMonth.getMonth(), i18n.locale)} ${lastMonth.getFullYear()}`;
+
     return (
       <motion.div 
         style={containerStyle}
@@ -394,90 +640,185 @@ export default function CustomCalendar({ events, config, calendarName, loading,
         animate={{ opacity: 1 }}
         transition={{ duration: 0.3 }}
       >
-        {/* Header */}
-        {config.showTitle && (
-          <motion.div 
-            className="px-6 py-4"
-            style={{ backgroundColor: accentColor }}
-            initial={{ opacity: 0, y: -20 }}
-            animate={{ opacity: 1, y: 0 }}
-            transition={{ type: "spring", stiffness: 300, damping: 25 }}
+        <CalendarHeader {...headerProps}>
+        <motion.div 
+          className="flex items-center justify-between px-4 py-3 border-b"
+          style={{ borderColor }}
+        >
+          <motion.button
+            onClick={goToPreviousMonths}
+            className="p-2 rounded-lg"
+            whileHover={{ scale: 1.1, backgroundColor: `${accentColor}20` }}
+            whileTap={{ scale: 0.95 }}
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+          </motion.button>
+          
+          <div className="flex items-center gap-3">
+            {config.showDate && (
+              <AnimatePresence mode="wait" custom={direction} initial={hydrated}>
+                <motion.h3 
+                  key={rangeTitle}
+                  className="text-lg font-semibold"
+                  custom={direction}
+                  variants={slideVariants}
+                  initial="enter"
+                  animate="center"
+                  exit="exit"
+                  transition={{ type: "spring", stiffness: 300, damping: 30 }}
+                >
+                  {rangeTitle}
+                </motion.h3>
+              </AnimatePresence>
+            )}
+            {config.showTodayButton && (
+              <motion.button
+                onClick={goToToday}
+                className="px-3 py-1.5 text-sm rounded-lg font-medium"
+                style={{ backgroundColor: `${accentColor}20`, color: accentColor }}
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+              >
+                {messages.today}
+              </motion.button>
+            )}
+          </div>
+          
+          <motion.button
+            onClick={goToNextMonths}
+            className="p-2 rounded-lg"
+            whileHover={{ scale: 1.1, backgroundColor: `${accentColor}20` }}
+            whileTap={{ scale: 0.95 }}
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+            </svg>
+          </motion.button>
+        </motion.div>
+        </CalendarHeader>
+
+        {/* Month Grids */}
+        <AnimatePresence mode="wait" custom={direction} initial={hydrated}>
+          <motion.div
+            key={rangeTitle}
+            custom={direction}
+            variants={slideVariants}
+            initial="enter"
+            animate="center"
+            exit="exit"
+            transition={{ type: "spring", stiffness: 300, damping: 30 }}
           >
-            <h2 className="text-lg font-semibold text-white">{calendarName || 'Calendar'}</h2>
+            <MonthOverview
+              months={months}
+              events={events}
+              markerStyle={config.overviewStyle}
+              showYear={!isYearView}
+              i18n={i18n}
+              today={now}
+              getEventColors={getEventColors}
+              onDayClick={openMonth}
+              accentColor={accentColor}
+              textColor={textColor}
+              borderColor={borderColor}
+            />
           </motion.div>
-        )}
-        
-        {/* Navigation */}
-        {config.showNavigation && (
-          <motion.div 
-            className="flex items-center justify-between px-4 py-3 border-b"
-            style={{ borderColor }}
-            initial={{ opacity: 0 }}
-            animate={{ opacity: 1 }}
-            transition={{ delay: 0.1 }}
+        </AnimatePresence>
+      </motion.div>
+    );
+  }
+
+  // Render Month View with spanning events
+  if (viewMode === 'month') {
+    return (
+      <motion.div 
+        style={containerStyle}
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        transition={{ duration: 0.3 }}
+      >
+        <CalendarHeader {...headerProps}>
+        <motion.div 
+          className="flex items-center justify-between px-4 py-3 border-b"
+          style={{ borderColor }}
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ delay: 0.1 }}
+        >
+          <motion.button
+            onClick={goToPreviousMonth}
+            className="p-2 rounded-lg transition-colors"
+            style={{ color: textColor }}
+            whileHover={{ scale: 1.1, backgroundColor: `${accentColor}20` }}
+            whileTap={{ scale: 0.95 }}
           >
-            <motion.button
-              onClick={goToPreviousMonth}
-              className="p-2 rounded-lg transition-colors"
-              style={{ color: textColor }}
-              whileHover={{ scale: 1.1, backgroundColor: `${accentColor}20` }}
-              whileTap={{ scale: 0.95 }}
-            >
-              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
-              </svg>
-            </motion.button>
-            
-            <div className="flex items-center gap-3">
-              {config.showDate && (
-                <AnimatePresence mode="wait" custom={direction}>
-                  <motion.h3 
-                    key={`${currentMonth}-${currentYear}`}
-                    className="text-lg font-semibold"
-                    custom={direction}
-                    variants={slideVariants}
-                    initial="enter"
-                    animate="center"
-                    exit="exit"
-                    transition={{ type: "spring", stiffness: 300, damping: 30 }}
-                  >
-                    {MONTH_NAMES[currentMonth]} {currentYear}
-                  </motion.h3>
-                </AnimatePresence>
-              )}
-              {config.showTodayButton && (
-                <motion.button
-                  onClick={goToToday}
-                  className="px-3 py-1.5 text-sm rounded-lg font-medium transition-all"
-                  style={{ 
-                    backgroundColor: `${accentColor}20`,
-                    color: accentColor,
-                  }}
-                  whileHover={{ scale: 1.05, backgroundColor: `${accentColor}30` }}
-                  whileTap={{ scale: 0.95 }}
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+          </motion.button>
+          
+          <div className="flex items-center gap-3">
+            {config.showDate && (
+              <AnimatePresence mode="wait" custom={direction} initial={hydrated}>
+                <motion.h3 
+                  key={`${currentMonth}-${currentYear}`}
+                  className="text-lg font-semibold"
+                  custom={direction}
+                  variants={slideVariants}
+                  initial="enter"
+                  animate="center"
+                  exit="exit"
+                  transition={{ type: "spring", stiffness: 300, damping: 30 }}
                 >
-                  Today
-                </motion.button>
-              )}
-            </div>
-            
-            <motion.button
-              onClick={goToNextMonth}
-              className="p-2 rounded-lg transition-colors"
-              style={{ color: textColor }}
-              whileHover={{ scale: 1.1, backgroundColor: `${accentColor}20` }}
-              whileTap={{ scale: 0.95 }}
-            >
-              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
-              </svg>
-            </motion.button>
-          </motion.div>
-        )}
+                  {new Date(currentYear, currentMonth, 1).toLocaleDateString(i18n.locale, { month: 'long', year: 'numeric' })}
+                </motion.h3>
+              </AnimatePresence>
+            )}
+            {config.showTodayButton && (
+              <motion.button
+                onClick={goToToday}
+                className="px-3 py-1.5 text-sm rounded-lg font-medium transition-all"
+                style={{ 
+                  backgroundColor: `${accentColor}20`,
+                  color: accentColor,
+                }}
+                whileHover={{ scale: 1.05, backgroundColor: `${accentColor}30` }}
+                whileTap={{ scale: 0.95 }}
+              >
+                {messages.today}
+              </motion.button>
+            )}
+            {viewOverride === 'month' && (config.viewMode === 'year' || config.viewMode === 'multiMonth') && (
+              <motion.button
+                onClick={() => setViewParam(null)}
+                className="px-3 py-1.5 text-sm rounded-lg font-medium"
+                style={{ backgroundColor: `${accentColor}20`, color: accentColor }}
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+              >
+                {config.viewMode === 'year' ? messages.backToYear : messages.backToMonths}
+              </motion.button>
+            )}
+          </div>
+          
+          <motion.button
+            onClick={goToNextMonth}
+            className="p-2 rounded-lg transition-colors"
+            style={{ color: textColor }}
+            whileHover={{ scale: 1.1, backgroundColor: `${accentColor}20` }}
+            whileTap={{ scale: 0.95 }}
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+            </svg>
+          </motion.button>
+        </motion.div>
+        </CalendarHeader>
 
         {/* Day Names */}
         <div className="grid grid-cols-7 border-b" style={{ borderColor }}>
-          {DAY_NAMES.map((day, i) => (
+          {getDayNames(i18n.locale, i18n.weekStartsOn).map((day, i) => (
             <motion.div 
               key={day} 
               className="py-2 text-center text-xs font-medium uppercase tracking-wider"
@@ -492,7 +833,7 @@ export default function CustomCalendar({ events, config, calendarName, loading,
         </div>
 
         {/* Calendar Grid */}
-        <AnimatePresence mode="wait" custom={direction}>
+        <AnimatePresence mode="wait" custom={direction} initial={hydrated}>
           <motion.div
             key={`${currentMonth}-${currentYear}`}
             custom={direction}
@@ -568,6 +909,11 @@ export default function CustomCalendar({ events, config, calendarName, loading,
                 eventPlacements.push({ event, startCol, span, row });
               });
 
+              // Column of the day whose overflow popover is open, if it's in this week
+              const overflowCol = overflowDay
+                ? week.findIndex(cell => cell.date && isSameDay(cell.date, overflowDay))
+                : -1;
+
               return (
                 <div key={weekIndex} className="relative">
                   {/* Day cells */}
@@ -578,8 +924,9 @@ export default function CustomCalendar({ events, config, calendarName, loading,
                       return (
                         <motion.div
                           key={dayIndex}
-                          className="min-h-[100px] p-1 border-b border-r"
+                          className="p-1 border-b border-r"
                           style={{ 
+                            minHeight: cellMinHeight,
                             borderColor,
                             backgroundColor: isCurrentDay ? `${accentColor}10` : 'transparent',
                           }}
@@ -611,9 +958,10 @@ export default function CustomCalendar({ events, config, calendarName, loading,
                     className="absolute left-0 right-0 pointer-events-none"
                     style={{ top: '32px' }}
                   >
-                    {eventPlacements.slice(0, 3).map(({ event, startCol, span, row }, idx) => {
+                    {eventPlacements.filter(({ row }) => row < maxEventRows).map(({ event, startCol, span, row }, idx) => {
                       const isMultiDay = span > 1;
                       const startsThisWeek = eventStartsOnDay(event, week[startCol].date!);
+                      const eventColors = getEventColors(event);
                       
                       return (
                         <motion.div
@@ -623,9 +971,9 @@ export default function CustomCalendar({ events, config, calendarName, loading,
                             left: `calc(${(startCol / 7) * 100}% + 2px)`,
                             width: `calc(${(span / 7) * 100}% - 4px)`,
                             top: `${row * 24}px`,
-                            backgroundColor: hexToRgba(config.eventColor, config.eventOpacity),
-                            color: getContrastTextColor(config.eventColor, config.eventOpacity),
-                            borderLeft: `3px solid ${hexToRgba(config.eventBorderColor, config.eventBorderOpacity)}`,
+                            backgroundColor: eventColors.backgroundColor,
+                            color: eventColors.color,
+                            borderLeft: `3px solid ${eventColors.borderColor}`,
                             borderRadius: isMultiDay 
                               ? `${startsThisWeek ? '4px' : '0'} ${span === 7 - startCol || !week[startCol + span]?.date ? '4px' : '0'} ${span === 7 - startCol || !week[startCol + span]?.date ? '4px' : '0'} ${startsThisWeek ? '4px' : '0'}`
                               : '4px',
@@ -643,32 +991,69 @@ export default function CustomCalendar({ events, config, calendarName, loading,
                             zIndex: 10,
                             boxShadow: '0 4px 12px rgba(0,0,0,0.3)'
                           }}
-                          onClick={() => setSelectedEvent(event)}
+                          onClick={() => openEvent(event)}
                         >
                           {!startsThisWeek && isMultiDay && '← '}
                           {!event.allDay && !isMultiDay && event.start.dateTime && (
-                            <span className="opacity-70">{formatTime(event.start.dateTime)} </span>
+                            <span className="opacity-70">{formatTime(event.start.dateTime, i18n)} </span>
                           )}
                           {event.title}
                         </motion.div>
                       );
                     })}
-                    {eventPlacements.length > 3 && (
-                      <motion.div
-                        className="absolute text-xs px-2 py-0.5"
-                        style={{
-                          left: '2px',
-                          top: `${3 * 24}px`,
-                          color: textColor,
-                          opacity: 0.6,
+                    {week.map((cell, col) => {
+                      if (!cell.date) return null;
+                      const hiddenCount = eventPlacements.filter(({ startCol, span, row }) =>
+                        row >= maxEventRows && col >= startCol && col < startCol + span
+                      ).length;
+                      if (hiddenCount === 0) return null;
+
+                      return (
+                        <motion.button
+                          key={col}
+                          className="absolute text-xs px-2 py-0.5 rounded pointer-events-auto truncate text-left"
+                          style={{
+                            left: `calc(${(col / 7) * 100}% + 2px)`,
+                            width: `calc(${(1 / 7) * 100}% - 4px)`,
+                            top: `${maxEventRows * 24}px`,
+                            color: textColor,
+                          }}
+                          initial={{ opacity: 0 }}
+                          animate={{ opacity: 0.7 }}
+                          whileHover={{ opacity: 1, backgroundColor: `${accentColor}15` }}
+                          onClick={() => setOverflowDay(cell.date)}
+                        >
+                          {messages.moreEvents(hiddenCount)}
+                        </motion.button>
+                      );
+                    })}
+                  </div>
+
+                  {/* All events for a day opened from "+N more" */}
+                  <AnimatePresence>
+                    {overflowCol >= 0 && (
+                      <DayEventsPopover
+                        date={week[overflowCol].date!}
+                        events={eventPlacements
+                          .filter(({ startCol, span }) => overflowCol >= startCol && overflowCol < startCol + span)
+                          .map(({ event }) => event)}
+                        column={overflowCol}
+                        columns={7}
+                        top={weekIndex < calendarWeeks.length - 2 ? 32 + maxEventRows * 24 : undefined}
+                        bottom={weekIndex < calendarWeeks.length - 2 ? undefined : 0}
+                        i18n={i18n}
+                        getEventColors={getEventColors}
+                        onEventClick={event => {
+                          setOverflowDay(null);
+                          openEvent(event);
                         }}
-                        initial={{ opacity: 0 }}
-                        animate={{ opacity: 0.6 }}
-                      >
-                        +{eventPlacements.length - 3} more
-                      </motion.div>
+                        onClose={closeOverflowDay}
+                        textColor={textColor}
+                        bgColor={bgColor}
+                        borderColor={borderColor}
+                      />
                     )}
-                  </div>
+                  </AnimatePresence>
                 </div>
               );
             })}
@@ -680,11 +1065,13 @@ export default function CustomCalendar({ events, config, calendarName, loading,
           {selectedEvent && (
             <EventModal
               event={selectedEvent}
+              i18n={i18n}
+              links={selectedEventLinks}
               accentColor={accentColor}
               textColor={textColor}
               bgColor={bgColor}
               borderColor={borderColor}
-              onClose={() => setSelectedEvent(null)}
+              onClose={closeEvent}
             />
           )}
         </AnimatePresence>
@@ -692,22 +1079,10 @@ export default function CustomCalendar({ events, config, calendarName, loading,
     );
   }
 
-  // Render Week View
-  if (config.viewMode === 'week') {
-    const startOfWeek = new Date(currentDate);
-    startOfWeek.setDate(currentDate.getDate() - currentDate.getDay());
-
-    const weekDays = Array.from({ length: 7 }).map((_, i) => {
-      const day = new Date(startOfWeek);
-      day.setDate(startOfWeek.getDate() + i);
-      return day;
-    });
-
-    const weekEvents = events.filter(event => {
-      const eventStart = getEventStartDate(event);
-      const eventEnd = getEventEndDate(event);
-      return eventStart <= weekDays[6] && eventEnd >= weekDays[0];
-    });
+  // Render Day and Week Views as a time grid
+  if (viewMode === 'week' || viewMode === 'day') {
+    const isDayView = viewMode === 'day';
+    const startOfWeek = timeGridDays[0];
 
     return (
       <motion.div 
@@ -716,83 +1091,71 @@ export default function CustomCalendar({ events, config, calendarName, loading,
         animate={{ opacity: 1 }}
         transition={{ duration: 0.3 }}
       >
-        {/* Header */}
-        {config.showTitle && (
-          <motion.div 
-            className="px-6 py-4"
-            style={{ backgroundColor: accentColor }}
-            initial={{ opacity: 0, y: -20 }}
-            animate={{ opacity: 1, y: 0 }}
-          >
-            <h2 className="text-lg font-semibold text-white">{calendarName || 'Calendar'}</h2>
-          </motion.div>
-        )}
-        
-        {/* Navigation */}
-        {config.showNavigation && (
-          <motion.div 
-            className="flex items-center justify-between px-4 py-3 border-b"
-            style={{ borderColor }}
+        <CalendarHeader {...headerProps}>
+        <motion.div 
+          className="flex items-center justify-between px-4 py-3 border-b"
+          style={{ borderColor }}
+        >
+          <motion.button
+            onClick={isDayView ? goToPreviousDay : goToPreviousWeek}
+            className="p-2 rounded-lg"
+            whileHover={{ scale: 1.1, backgroundColor: `${accentColor}20` }}
+            whileTap={{ scale: 0.95 }}
           >
-            <motion.button
-              onClick={goToPreviousWeek}
-              className="p-2 rounded-lg"
-              whileHover={{ scale: 1.1, backgroundColor: `${accentColor}20` }}
-              whileTap={{ scale: 0.95 }}
-            >
-              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
-              </svg>
-            </motion.button>
-            
-            <div className="flex items-center gap-3">
-              {config.showDate && (
-                <AnimatePresence mode="wait" custom={direction}>
-                  <motion.h3 
-                    key={startOfWeek.toISOString()}
-                    className="text-lg font-semibold"
-                    custom={direction}
-                    variants={slideVariants}
-                    initial="enter"
-                    animate="center"
-                    exit="exit"
-                    transition={{ type: "spring", stiffness: 300, damping: 30 }}
-                  >
-                    {MONTH_NAMES[startOfWeek.getMonth()]} {startOfWeek.getFullYear()}
-                  </motion.h3>
-                </AnimatePresence>
-              )}
-              {config.showTodayButton && (
-                <motion.button
-                  onClick={goToToday}
-                  className="px-3 py-1.5 text-sm rounded-lg font-medium"
-                  style={{ backgroundColor: `${accentColor}20`, color: accentColor }}
-                  whileHover={{ scale: 1.05 }}
-                  whileTap={{ scale: 0.95 }}
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+          </motion.button>
+          
+          <div className="flex items-center gap-3">
+            {config.showDate && (
+              <AnimatePresence mode="wait" custom={direction} initial={hydrated}>
+                <motion.h3 
+                  key={startOfWeek.toISOString()}
+                  className="text-lg font-semibold"
+                  custom={direction}
+                  variants={slideVariants}
+                  initial="enter"
+                  animate="center"
+                  exit="exit"
+                  transition={{ type: "spring", stiffness: 300, damping: 30 }}
                 >
-                  Today
-                </motion.button>
-              )}
-            </div>
-            
-            <motion.button
-              onClick={goToNextWeek}
-              className="p-2 rounded-lg"
-              whileHover={{ scale: 1.1, backgroundColor: `${accentColor}20` }}
-              whileTap={{ scale: 0.95 }}
-            >
-              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
-              </svg>
-            </motion.button>
-          </motion.div>
-        )}
+                  {isDayView
+                    ? startOfWeek.toLocaleDateString(i18n.locale, { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' })
+                    : startOfWeek.toLocaleDateString(i18n.locale, { month: 'long', year: 'numeric' })}
+                </motion.h3>
+              </AnimatePresence>
+            )}
+            {config.showTodayButton && (
+              <motion.button
+                onClick={goToToday}
+                className="px-3 py-1.5 text-sm rounded-lg font-medium"
+                style={{ backgroundColor: `${accentColor}20`, color: accentColor }}
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+              >
+                {messages.today}
+              </motion.button>
+            )}
+          </div>
+          
+          <motion.button
+            onClick={isDayView ? goToNextDay : goToNextWeek}
+            className="p-2 rounded-lg"
+            whileHover={{ scale: 1.1, backgroundColor: `${accentColor}20` }}
+            whileTap={{ scale: 0.95 }}
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+            </svg>
+          </motion.button>
+        </motion.div>
+        </CalendarHeader>
 
-        {/* Week Grid */}
-        <AnimatePresence mode="wait" custom={direction}>
+        {/* Time Grid */}
+        <AnimatePresence mode="wait" custom={direction} initial={hydrated}>
           <motion.div 
             key={startOfWeek.toISOString()}
-            className="grid grid-cols-7"
             custom={direction}
             variants={slideVariants}
             initial="enter"
@@ -800,74 +1163,22 @@ export default function CustomCalendar({ events, config, calendarName, loading,
             exit="exit"
             transition={{ type: "spring", stiffness: 300, damping: 30 }}
           >
-            {weekDays.map((day, dayIndex) => {
-              const dayEvents = weekEvents.filter(event => eventSpansDay(event, day));
-              const isCurrentDay = isSameDay(day, new Date());
-
-              return (
-                <motion.div 
-                  key={dayIndex} 
-                  className="min-h-[350px] border-r"
-                  style={{ 
-                    borderColor,
-                    backgroundColor: isCurrentDay ? `${accentColor}08` : 'transparent',
-                  }}
-                  initial={{ opacity: 0 }}
-                  animate={{ opacity: 1 }}
-                  transition={{ delay: dayIndex * 0.05 }}
-                >
-                  <div 
-                    className="text-center py-3 border-b sticky top-0"
-                    style={{ borderColor, backgroundColor: bgColor }}
-                  >
-                    <div className="text-xs uppercase tracking-wider" style={{ color: textColor, opacity: 0.5 }}>
-                      {DAY_NAMES[dayIndex]}
-                    </div>
-                    <motion.div 
-                      className={`w-9 h-9 mx-auto mt-1 flex items-center justify-center rounded-full text-lg font-medium ${isCurrentDay ? 'text-white' : ''}`}
-                      style={{ backgroundColor: isCurrentDay ? accentColor : 'transparent' }}
-                      whileHover={{ scale: 1.1 }}
-                    >
-                      {day.getDate()}
-                    </motion.div>
-                  </div>
-                  <div className="p-1.5 space-y-1.5">
-                    {dayEvents.slice(0, 8).map((event, i) => {
-                      const startsToday = eventStartsOnDay(event, day);
-                      const isMultiDay = !isSameDay(getEventStartDate(event), getEventEndDate(event));
-                      
-                      return (
-                        <motion.div
-                          key={event.id || i}
-                          className="text-xs p-2 rounded cursor-pointer"
-                          style={{ 
-                            backgroundColor: hexToRgba(config.eventColor, config.eventOpacity),
-                            color: getContrastTextColor(config.eventColor, config.eventOpacity),
-                            borderLeft: `2px solid ${hexToRgba(config.eventBorderColor, config.eventBorderOpacity)}`,
-                          }}
-                          initial={{ opacity: 0, x: -10 }}
-                          animate={{ opacity: 1, x: 0 }}
-                          transition={{ delay: i * 0.05 }}
-                          whileHover={{ scale: 1.02, boxShadow: '0 2px 8px rgba(0,0,0,0.2)' }}
-                          onClick={() => setSelectedEvent(event)}
-                        >
-                          <div className="font-medium truncate">
-                            {!startsToday && isMultiDay && '← '}
-                            {event.title}
-                          </div>
-                          {!event.allDay && !isMultiDay && event.start.dateTime && (
-                            <div className="opacity-70 mt-0.5">{formatTime(event.start.dateTime)}</div>
-                          )}
-                        </motion.div>
-                      );
-                    })}
-                    {dayEvents.length > 8 && (
-                      <div className="text-xs px-2 opacity-60">+{dayEvents.length - 8} more</div>
-                    )}
-                  </div>
-                </motion.div>
-              );
-            })}
+            <TimeGrid
+              days={timeGridDays}
+              events={events}
+              startHour={config.dayStartHour}
+              endHour={config.dayEndHour}
+              maxAllDayRows={maxEventRows}
+              i18n={i18n}
+              timeZone={timeZone}
+              now={now}
+              getEventColors={getEventColors}
+              onEventClick={openEvent}
+              accentColor={accentColor}
+              textColor={textColor}
+              borderColor={borderColor}
+              bgColor={bgColor}
+            />
           </motion.div>
         </AnimatePresence>
 
@@ -875,11 +1186,13 @@ export default function CustomCalendar({ events, config, calendarName, loading,
           {selectedEvent && (
             <EventModal
               event={selectedEvent}
+              i18n={i18n}
+              links={selectedEventLinks}
               accentColor={accentColor}
               textColor={textColor}
               bgColor={bgColor}
               borderColor={borderColor}
-              onClose={() => setSelectedEvent(null)}
+              onClose={closeEvent}
             />
           )}
         </AnimatePresence>
@@ -887,7 +1200,30 @@ export default function CustomCalendar({ events, config, calendarName, loading,
     );
   }
 
-  // Render Agenda View
+  // Render Agenda View, grouped by day
+  const agendaEvents = events.slice(0, pageSize * agendaPages);
+  const canShowMore = events.length > agendaEvents.length || (hasMore && !!onLoadMore);
+
+  const agendaGroups: Array<{ date: Date; events: CalendarEvent[] }> = [];
+  for (const event of agendaEvents) {
+    const day = getEventStartDate(event);
+    day.setHours(0, 0, 0, 0);
+    const lastGroup = agendaGroups[agendaGroups.length - 1];
+    if (lastGroup && isSameDay(lastGroup.date, day)) {
+      lastGroup.events.push(event);
+    } else {
+      agendaGroups.push({ date: day, events: [event] });
+    }
+  }
+
+  const showMoreAgenda = () => {
+    // Reveal events that are already loaded before asking for the next window
+    if (events.length <= agendaEvents.length && onLoadMore) {
+      onLoadMore();
+    }
+    setAgendaPages(pages => pages + 1);
+  };
+
   return (
     <motion.div 
       style={containerStyle}
@@ -895,47 +1231,28 @@ export default function CustomCalendar({ events, config, calendarName, loading,
       animate={{ opacity: 1 }}
       transition={{ duration: 0.3 }}
     >
-      {/* Header */}
-      {config.showTitle && (
-        <motion.div 
-          className="px-6 py-4"
-          style={{ backgroundColor: accentColor }}
-          initial={{ opacity: 0, y: -20 }}
-          animate={{ opacity: 1, y: 0 }}
-        >
-          <h2 className="text-lg font-semibold text-white">{calendarName || 'Calendar'}</h2>
-        </motion.div>
-      )}
-      
-      {/* Navigation */}
-      {config.showNavigation && (
-        <motion.div 
-          className="flex items-center justify-between px-4 py-3 border-b"
-          style={{ borderColor }}
-        >
-          <h3 className="text-lg font-semibold">Upcoming Events</h3>
-          {config.showTodayButton && (
-            <motion.button
-              onClick={goToToday}
-              className="px-3 py-1.5 text-sm rounded-lg font-medium"
-              style={{ backgroundColor: `${accentColor}20`, color: accentColor }}
-              whileHover={{ scale: 1.05 }}
-              whileTap={{ scale: 0.95 }}
-            >
-              Today
-            </motion.button>
-          )}
-        </motion.div>
-      )}
-
-      {/* Event List */}
+      <CalendarHeader {...headerProps}>
       <motion.div 
-        className="divide-y"
+        className="flex items-center justify-between px-4 py-3 border-b"
         style={{ borderColor }}
-        variants={containerVariants}
-        initial="hidden"
-        animate="visible"
       >
+        <h3 className="text-lg font-semibold">{config.agendaDaysBehind > 0 ? messages.agenda : messages.upcomingEvents}</h3>
+        {config.showTodayButton && (
+          <motion.button
+            onClick={() => scrollAgendaToToday()}
+            className="px-3 py-1.5 text-sm rounded-lg font-medium"
+            style={{ backgroundColor: `${accentColor}20`, color: accentColor }}
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+          >
+            {messages.today}
+          </motion.button>
+        )}
+      </motion.div>
+      </CalendarHeader>
+
+      {/* Event List */}
+      <div ref={agendaListRef} className="relative overflow-y-auto" style={{ maxHeight: 560 }}>
         {events.length === 0 ? (
           <motion.div 
             className="py-16 text-center"
@@ -951,89 +1268,143 @@ export default function CustomCalendar({ events, config, calendarName, loading,
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
               </svg>
             </motion.div>
-            <p style={{ color: textColor, opacity: 0.5 }}>No upcoming events</p>
+            <p style={{ color: textColor, opacity: 0.5 }}>{messages.noUpcomingEvents}</p>
           </motion.div>
         ) : (
-          events.slice(0, 20).map((event, index) => {
-            const eventStart = getEventStartDate(event);
-            const eventEnd = getEventEndDate(event);
-            const isMultiDay = !isSameDay(eventStart, eventEnd);
-            
+          agendaGroups.map(group => {
+            const key = dayKey(group.date);
+            const isCurrentDay = isSameDay(group.date, now);
+
             return (
-              <motion.div 
-                key={event.id || index} 
-                className="px-4 py-4 cursor-pointer"
-                style={{ borderColor }}
-                variants={itemVariants}
-                whileHover={{ backgroundColor: `${accentColor}08` }}
-                onClick={() => setSelectedEvent(event)}
+              <div
+                key={key}
+                data-date={group.date.getTime()}
+                ref={el => {
+                  if (el) {
+                    agendaDayRefs.current.set(key, el);
+                  } else {
+                    agendaDayRefs.current.delete(key);
+                  }
+                }}
               >
-                <div className="flex items-start gap-4">
-                  <motion.div 
-                    className="w-1.5 rounded-full self-stretch min-h-[50px]"
-                    style={{ backgroundColor: hexToRgba(config.eventBorderColor, config.eventBorderOpacity) }}
-                    initial={{ scaleY: 0 }}
-                    animate={{ scaleY: 1 }}
-                    transition={{ delay: index * 0.05 }}
-                  />
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-center gap-2 flex-wrap">
-                      <h4 className="font-medium" style={{ color: textColor }}>{event.title}</h4>
-                      {isMultiDay && (
-                        <motion.span 
-                          className="text-xs px-2 py-0.5 rounded-full"
-                          style={{ backgroundColor: hexToRgba(config.eventColor, config.eventOpacity), color: getContrastTextColor(config.eventColor, config.eventOpacity) }}
-                          initial={{ scale: 0 }}
-                          animate={{ scale: 1 }}
-                        >
-                          Multi-day
-                        </motion.span>
-                      )}
-                    </div>
-                    <div className="text-sm mt-1" style={{ color: textColor, opacity: 0.6 }}>
-                      {event.allDay ? (
-                        isMultiDay ? (
-                          `${formatDate(event.start.date!)} → ${formatDate(eventEnd.toISOString())}`
-                        ) : (
-                          formatDate(event.start.date!)
-                        )
-                      ) : (
-                        isMultiDay ? (
-                          `${formatDate(event.start.dateTime!)} ${formatTime(event.start.dateTime!)} → ${formatDate(event.end?.dateTime || event.start.dateTime!)} ${formatTime(event.end?.dateTime || event.start.dateTime!)}`
-                        ) : (
-                          `${formatDate(event.start.dateTime!)} at ${formatTime(event.start.dateTime!)}${event.end?.dateTime ? ` - ${formatTime(event.end.dateTime)}` : ''}`
-                        )
-                      )}
-                    </div>
-                    {event.location && (
-                      <div className="text-sm mt-1.5 flex items-center gap-1.5" style={{ color: textColor, opacity: 0.5 }}>
-                        <svg className="w-4 h-4 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
-                        </svg>
-                        <span className="truncate">{event.location}</span>
-                      </div>
-                    )}
-                  </div>
-                  <svg className="w-5 h-5 flex-shrink-0" style={{ color: textColor, opacity: 0.3 }} fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
-                  </svg>
+                {/* Day Header */}
+                <div
+                  className="sticky top-0 z-10 px-4 py-2 text-xs font-semibold uppercase tracking-wider border-b"
+                  style={{ backgroundColor: bgColor, borderColor, color: isCurrentDay ? accentColor : textColor }}
+                >
+                  <span style={{ opacity: isCurrentDay ? 1 : 0.6 }}>{formatAgendaDay(group.date, now, i18n)}</span>
                 </div>
-              </motion.div>
+
+                <motion.div 
+                  className="divide-y border-b"
+                  style={{ borderColor }}
+                  variants={containerVariants}
+                  initial="hidden"
+                  animate="visible"
+                >
+                  {group.events.map((event, index) => {
+                    const eventStart = getEventStartDate(event);
+                    const eventEnd = getEventEndDate(event);
+                    const isMultiDay = !isSameDay(eventStart, eventEnd);
+                    const eventColors = getEventColors(event);
+                    
+                    return (
+                      <motion.div 
+                        key={event.id || index} 
+                        className="px-4 py-4 cursor-pointer"
+                        style={{ borderColor }}
+                        variants={itemVariants}
+                        whileHover={{ backgroundColor: `${accentColor}08` }}
+                        onClick={() => openEvent(event)}
+                      >
+                        <div className="flex items-start gap-4">
+                          <motion.div 
+                            className="w-1.5 rounded-full self-stretch min-h-[50px]"
+                            style={{ backgroundColor: eventColors.borderColor }}
+                            initial={{ scaleY: 0 }}
+                            animate={{ scaleY: 1 }}
+                            transition={{ delay: index * 0.05 }}
+                          />
+                          <div className="flex-1 min-w-0">
+                            <div className="flex items-center gap-2 flex-wrap">
+                              <h4 className="font-medium" style={{ color: textColor }}>{event.title}</h4>
+                              {isMultiDay && (
+                                <motion.span 
+                                  className="text-xs px-2 py-0.5 rounded-full"
+                                  style={{ backgroundColor: eventColors.backgroundColor, color: eventColors.color }}
+                                  initial={{ scale: 0 }}
+                                  animate={{ scale: 1 }}
+                                >
+                                  {messages.multiDay}
+                                </motion.span>
+                              )}
+                            </div>
+                            <div className="text-sm mt-1" style={{ color: textColor, opacity: 0.6 }}>
+                              {event.allDay ? (
+                                isMultiDay ? (
+                                  `${formatDate(event.start.date!, i18n)} → ${formatDate(eventEnd.toISOString(), i18n)}`
+                                ) : (
+                                  messages.allDay
+                                )
+                              ) : (
+                                isMultiDay ? (
+                                  `${formatDate(event.start.dateTime!, i18n)} ${formatTime(event.start.dateTime!, i18n)} → ${formatDate(event.end?.dateTime || event.start.dateTime!, i18n)} ${formatTime(event.end?.dateTime || event.start.dateTime!, i18n)}`
+                                ) : (
+                                  `${formatTime(event.start.dateTime!, i18n)}${event.end?.dateTime ? ` - ${formatTime(event.end.dateTime, i18n)}` : ''}`
+                                )
+                              )}
+                            </div>
+                            {event.location && (
+                              <div className="text-sm mt-1.5 flex items-center gap-1.5" style={{ color: textColor, opacity: 0.5 }}>
+                                <svg className="w-4 h-4 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
+                                </svg>
+                                <span className="truncate">{event.location}</span>
+                              </div>
+                            )}
+                          </div>
+                          <svg className="w-5 h-5 flex-shrink-0" style={{ color: textColor, opacity: 0.3 }} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                          </svg>
+                        </div>
+                      </motion.div>
+                    );
+                  })}
+                </motion.div>
+              </div>
             );
           })
         )}
-      </motion.div>
+
+        {/* Load More */}
+        {events.length > 0 && canShowMore && (
+          <div className="p-4 text-center">
+            <motion.button
+              onClick={showMoreAgenda}
+              disabled={loadingMore}
+              className="px-4 py-2 text-sm rounded-lg font-medium disabled:opacity-60"
+              style={{ backgroundColor: `${accentColor}20`, color: accentColor }}
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+            >
+              {loadingMore ? messages.loadingMore : messages.loadMore}
+            </motion.button>
+          </div>
+        )}
+      </div>
 
       <AnimatePresence>
         {selectedEvent && (
           <EventModal
             event={selectedEvent}
+            i18n={i18n}
+            links={selectedEventLinks}
             accentColor={accentColor}
             textColor={textColor}
             bgColor={bgColor}
             borderColor={borderColor}
-            onClose={() => setSelectedEvent(null)}
+            onClose={closeEvent}
           />
         )}
       </AnimatePresence>
@@ -1044,6 +1415,8 @@ export default function CustomCalendar({ events, config, calendarName, loading,
 // Event Modal Component
 function EventModal({ 
   event,
+  i18n,
+  links,
   accentColor,
   textColor,
   bgColor,
@@ -1051,6 +1424,8 @@ function EventModal({
   onClose 
 }: { 
   event: CalendarEvent;
+  i18n: CalendarI18n;
+  links: AddToCalendarLinks | null;
   accentColor: string;
   textColor: string;
   bgColor: string;
@@ -1060,6 +1435,18 @@ function EventModal({
   const eventStart = getEventStartDate(event);
   const eventEnd = getEventEndDate(event);
   const isMultiDay = !isSameDay(eventStart, eventEnd);
+  const [linkCopied, setLinkCopied] = useState(false);
+
+  // The page URL carries the open event in its hash, so it's the permalink
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch {
+      // Clipboard access can be blocked inside an iframe
+    }
+  };
 
   return (
     <motion.div 
@@ -1093,6 +1480,24 @@ function EventModal({
           style={{ backgroundColor: accentColor }}
         >
           <h3 className="font-semibold text-white truncate pr-4">{event.title}</h3>
+          <motion.button
+            onClick={copyLink}
+            className="ml-auto p-1.5 rounded-lg hover:bg-white/20 text-white"
+            whileHover={{ scale: 1.1 }}
+            whileTap={{ scale: 0.9 }}
+            aria-label={linkCopied ? i18n.messages.linkCopied : i18n.messages.copyLink}
+            title={linkCopied ? i18n.messages.linkCopied : i18n.messages.copyLink}
+          >
+            {linkCopied ? (
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+              </svg>
+            ) : (
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+              </svg>
+            )}
+          </motion.button>
           <motion.button 
             onClick={onClose} 
             className="p-1.5 rounded-lg hover:bg-white/20 text-white"
@@ -1116,18 +1521,18 @@ function EventModal({
               <p className="font-medium">
                 {event.allDay ? (
                   isMultiDay ? (
-                    `${formatDate(event.start.date!)} → ${formatDate(eventEnd.toISOString())}`
+                    `${formatDate(event.start.date!, i18n)} → ${formatDate(eventEnd.toISOString(), i18n)}`
                   ) : (
-                    formatDate(event.start.date!)
+                    formatDate(event.start.date!, i18n)
                   )
                 ) : (
-                  formatDate(event.start.dateTime!)
+                  formatDate(event.start.dateTime!, i18n)
                 )}
               </p>
               {!event.allDay && (
                 <p className="text-sm opacity-60">
-                  {formatTime(event.start.dateTime!)}
-                  {event.end?.dateTime && ` - ${formatTime(event.end.dateTime)}`}
+                  {formatTime(event.start.dateTime!, i18n)}
+                  {event.end?.dateTime && ` - ${formatTime(event.end.dateTime, i18n)}`}
                 </p>
               )}
               {isMultiDay && (
@@ -1135,7 +1540,7 @@ function EventModal({
                   className="inline-block mt-1 text-xs px-2 py-0.5 rounded-full"
                   style={{ backgroundColor: `${accentColor}20`, color: accentColor }}
                 >
-                  Multi-day event
+                  {i18n.messages.multiDayEvent}
                 </span>
               )}
             </div>
@@ -1151,7 +1556,7 @@ function EventModal({
                 </svg>
               </div>
               <div>
-                <p className="font-medium">Location</p>
+                <p className="font-medium">{i18n.messages.location}</p>
                 <p className="text-sm opacity-60">{event.location}</p>
               </div>
             </div>
@@ -1163,6 +1568,36 @@ function EventModal({
               <p className="text-sm whitespace-pre-wrap opacity-80">{event.description}</p>
             </div>
           )}
+
+          {/* Add to Calendar */}
+          {links && (
+            <div className="pt-3 border-t" style={{ borderColor }}>
+              <p className="text-xs font-medium uppercase tracking-wider opacity-50 mb-2">{i18n.messages.addToCalendar}</p>
+              <div className="flex flex-wrap gap-2">
+                {[
+                  { href: links.google, label: i18n.messages.googleCalendar },
+                  { href: links.outlook, label: i18n.messages.outlookCalendar },
+                  { href: links.ics, label: i18n.messages.downloadIcs, download: true },
+                  { href: links.subscribe, label: i18n.messages.subscribe },
+                ].filter(link => link.href).map(({ href, label, download }) => (
+                  <motion.a
+                    key={label}
+                    href={href!}
+                    // Downloads stay in the embed; everything else leaves the iframe
+                    download={download || undefined}
+                    target={download ? undefined : '_blank'}
+                    rel={download ? undefined : 'noopener noreferrer'}
+                    className="px-3 py-1.5 text-sm rounded-lg font-medium"
+                    style={{ backgroundColor: `${accentColor}20`, color: accentColor }}
+                    whileHover={{ scale: 1.05 }}
+                    whileTap={{ scale: 0.95 }}
+                  >
+                    {label}
+                  </motion.a>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
       </motion.div>
     </motion.div>
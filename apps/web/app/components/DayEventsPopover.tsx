@@ -0,0 +1,131 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { motion } from 'motion/react';
+import { CalendarEvent } from '../api/calendar/route';
+import { EventColors, eventStartsOnDay, formatTime } from './calendar-utils';
+import { CalendarI18n } from './i18n';
+
+interface DayEventsPopoverProps {
+  date: Date;
+  events: CalendarEvent[];
+  // Day column the popover is attached to; popovers in the right half open
+  // leftwards so they stay inside the calendar
+  column: number;
+  columns: number;
+  // Vertical position within the containing row; rows near the bottom of the
+  // calendar pass `bottom` so the popover opens upwards
+  top?: number;
+  bottom?: number;
+  i18n: CalendarI18n;
+  getEventColors: (event: CalendarEvent) => EventColors;
+  onEventClick: (event: CalendarEvent) => void;
+  onClose: () => void;
+  textColor: string;
+  bgColor: string;
+  borderColor: string;
+}
+
+// Every event on one day, opened from a "+N more" indicator when a cell
+// can't fit them all
+export default function DayEventsPopover({
+  date,
+  events,
+  column,
+  columns,
+  top,
+  bottom,
+  i18n,
+  getEventColors,
+  onEventClick,
+  onClose,
+  textColor,
+  bgColor,
+  borderColor,
+}: DayEventsPopoverProps) {
+  const popoverRef = useRef<HTMLDivElement>(null);
+
+  // Close on Escape or a click anywhere else
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    const handlePointerDown = (e: PointerEvent) => {
+      if (popoverRef.current && !popoverRef.current.contains(e.target as Node)) onClose();
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    document.addEventListener('pointerdown', handlePointerDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      document.removeEventListener('pointerdown', handlePointerDown);
+    };
+  }, [onClose]);
+
+  const openLeft = column >= columns / 2;
+
+  return (
+    <motion.div
+      ref={popoverRef}
+      role="dialog"
+      aria-label={i18n.messages.eventsOn(date.toLocaleDateString(i18n.locale, { month: 'long', day: 'numeric' }))}
+      className="absolute z-30 w-60 max-w-[90%] rounded-lg border shadow-xl"
+      style={{
+        top,
+        bottom,
+        ...(openLeft
+          ? { right: `calc(${((columns - column - 1) / columns) * 100}% + 2px)` }
+          : { left: `calc(${(column / columns) * 100}% + 2px)` }),
+        backgroundColor: bgColor,
+        borderColor,
+        color: textColor,
+      }}
+      initial={{ opacity: 0, scale: 0.95, y: -4 }}
+      animate={{ opacity: 1, scale: 1, y: 0 }}
+      exit={{ opacity: 0, scale: 0.95, y: -4 }}
+      transition={{ duration: 0.15 }}
+    >
+      <div className="flex items-center justify-between px-3 py-2 border-b" style={{ borderColor }}>
+        <span className="text-sm font-semibold">
+          {date.toLocaleDateString(i18n.locale, { weekday: 'short', month: 'long', day: 'numeric' })}
+        </span>
+        <button
+          onClick={onClose}
+          className="p-1 rounded hover:opacity-70"
+          aria-label={i18n.messages.close}
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="p-2 space-y-1 overflow-y-auto" style={{ maxHeight: 280 }}>
+        {events.map((event, idx) => {
+          const eventColors = getEventColors(event);
+          const startsToday = eventStartsOnDay(event, date);
+
+          return (
+            <motion.button
+              key={event.id || idx}
+              className="block w-full text-left text-xs px-2 py-1 rounded truncate"
+              style={{
+                backgroundColor: eventColors.backgroundColor,
+                color: eventColors.color,
+                borderLeft: `3px solid ${eventColors.borderColor}`,
+              }}
+              whileHover={{ scale: 1.02 }}
+              onClick={() => onEventClick(event)}
+            >
+              {!startsToday && '← '}
+              {!event.allDay && startsToday && event.start.dateTime && (
+                <span className="opacity-70">{formatTime(event.start.dateTime, i18n)} </span>
+              )}
+              {event.title}
+            </motion.button>
+          );
+        })}
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,84 @@
+import { CalendarEvent } from '../api/calendar/route';
+import { formatAgendaDay, formatDateKey, formatTime, getEventEndDate, getEventStartDate, isSameDay } from './calendar-utils';
+import { CalendarI18n } from './i18n';
+
+interface EventListProps {
+  title: string;
+  // Wall-clock times in the zone the list is shown in
+  events: CalendarEvent[];
+  today: Date;
+  i18n: CalendarI18n;
+  subtitle?: string;
+}
+
+// Plain list of the upcoming events, grouped by day, for pages read without
+// JavaScript such as crawlers and feed readers. No hooks, so it renders on
+// the server.
+export default function EventList({ title, events, today, i18n, subtitle }: EventListProps) {
+  const { messages } = i18n;
+  const startOfToday = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+
+  const groups: Array<{ date: Date; events: CalendarEvent[] }> = [];
+  const upcoming = events
+    .filter(event => getEventEndDate(event) >= startOfToday)
+    .sort((a, b) => getEventStartDate(a).getTime() - getEventStartDate(b).getTime());
+  for (const event of upcoming) {
+    const start = getEventStartDate(event);
+    const day = start < startOfToday ? startOfToday : new Date(start.getFullYear(), start.getMonth(), start.getDate());
+    const last = groups[groups.length - 1];
+    if (last && isSameDay(last.date, day)) {
+      last.events.push(event);
+    } else {
+      groups.push({ date: day, events: [event] });
+    }
+  }
+
+  return (
+    <section className="p-6" style={{ fontFamily: 'system-ui, sans-serif' }}>
+      <h1 className="text-xl font-semibold">{title}</h1>
+      {subtitle && <p className="text-sm opacity-70">{subtitle}</p>}
+
+      {groups.length === 0 ? (
+        <p className="mt-4 opacity-70">{messages.noUpcomingEvents}</p>
+      ) : (
+        <ol className="mt-4 space-y-6">
+          {groups.map(group => (
+            <li key={group.date.getTime()}>
+              <h2 className="text-sm font-semibold uppercase tracking-wider opacity-70">
+                <time dateTime={formatDateKey(group.date)}>{formatAgendaDay(group.date, startOfToday, i18n)}</time>
+              </h2>
+              <ul className="mt-2 space-y-3">
+                {group.events.map((event, idx) => (
+                  <li key={`${event.id}-${idx}`}>
+                    <article>
+                      <h3 className="font-medium">{event.title}</h3>
+                      <p className="text-sm opacity-80">
+                        {event.allDay ? (
+                          messages.allDay
+                        ) : (
+                          <>
+                            <time dateTime={event.start.dateTime}>{formatTime(event.start.dateTime!, i18n)}</time>
+                            {event.end?.dateTime && (
+                              <>
+                                {' – '}
+                                <time dateTime={event.end.dateTime}>{formatTime(event.end.dateTime, i18n)}</time>
+                              </>
+                            )}
+                          </>
+                        )}
+                        {event.location && ` · ${event.location}`}
+                      </p>
+                      {event.description && (
+                        <p className="mt-1 text-sm opacity-70 whitespace-pre-wrap">{event.description}</p>
+                      )}
+                    </article>
+                  </li>
+                ))}
+              </ul>
+            </li>
+          ))}
+        </ol>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,231 @@
+'use client';
+
+import { ReactNode, useEffect, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { CalendarEvent } from '../api/calendar/route';
+import { searchEvent } from '../lib/search';
+import { EventColors, formatAgendaDay, formatTime, getEventStartDate, isSameDay } from './calendar-utils';
+import { CalendarI18n } from './i18n';
+
+// Results listed before the rest are cut off
+const MAX_RESULTS = 50;
+// Characters of description shown around its first match
+const SNIPPET_BEFORE = 30;
+const SNIPPET_LENGTH = 120;
+
+interface EventSearchProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  results: CalendarEvent[];
+  searching: boolean;
+  error: string | null;
+  today: Date;
+  i18n: CalendarI18n;
+  getEventColors: (event: CalendarEvent) => EventColors;
+  onSelect: (event: CalendarEvent) => void;
+  textColor: string;
+  bgColor: string;
+  borderColor: string;
+  accentColor: string;
+}
+
+// Text with the given [start, end) ranges wrapped in <mark>
+function Highlighted({ text, ranges, accentColor }: { text: string; ranges?: Array<[number, number]>; accentColor: string }) {
+  if (!ranges?.length) return <>{text}</>;
+
+  const merged: Array<[number, number]> = [];
+  for (const [start, end] of [...ranges].sort((a, b) => a[0] - b[0])) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  }
+
+  const parts: ReactNode[] = [];
+  let position = 0;
+  merged.forEach(([start, end], index) => {
+    if (start > position) parts.push(text.slice(position, start));
+    parts.push(
+      <mark key={index} className="rounded-sm px-0.5" style={{ backgroundColor: `${accentColor}33`, color: 'inherit' }}>
+        {text.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  });
+  if (position < text.length) parts.push(text.slice(position));
+
+  return <>{parts}</>;
+}
+
+// Search field for the embed header. Matches drop down as an agenda-style
+// list grouped by day; picking one hands it to onSelect.
+export default function EventSearch({
+  query,
+  onQueryChange,
+  results,
+  searching,
+  error,
+  today,
+  i18n,
+  getEventColors,
+  onSelect,
+  textColor,
+  bgColor,
+  borderColor,
+  accentColor,
+}: EventSearchProps) {
+  const { messages } = i18n;
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [open, setOpen] = useState(false);
+
+  // Close the results on a click anywhere else
+  useEffect(() => {
+    if (!open) return;
+
+    const handlePointerDown = (e: PointerEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) setOpen(false);
+    };
+
+    document.addEventListener('pointerdown', handlePointerDown);
+    return () => document.removeEventListener('pointerdown', handlePointerDown);
+  }, [open]);
+
+  const shown = results.slice(0, MAX_RESULTS);
+  const groups: Array<{ date: Date; events: CalendarEvent[] }> = [];
+  for (const event of shown) {
+    const start = getEventStartDate(event);
+    const last = groups[groups.length - 1];
+    if (last && isSameDay(last.date, start)) {
+      last.events.push(event);
+    } else {
+      groups.push({ date: new Date(start.getFullYear(), start.getMonth(), start.getDate()), events: [event] });
+    }
+  }
+
+  return (
+    <div ref={containerRef} className="relative px-4 py-2 border-b" style={{ borderColor }}>
+      <div className="flex items-center gap-2 rounded-lg border px-3 py-1.5" style={{ borderColor }}>
+        <svg className="w-4 h-4 flex-shrink-0 opacity-50" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+        </svg>
+        <input
+          type="search"
+          value={query}
+          onChange={e => {
+            onQueryChange(e.target.value);
+            setOpen(true);
+          }}
+          onFocus={() => setOpen(true)}
+          onKeyDown={e => {
+            if (e.key === 'Escape') {
+              onQueryChange('');
+              setOpen(false);
+            }
+          }}
+          placeholder={messages.searchEvents}
+          aria-label={messages.searchEvents}
+          className="min-w-0 flex-1 bg-transparent text-sm outline-none"
+          style={{ color: textColor }}
+        />
+        {query && (
+          <button
+            onClick={() => {
+              onQueryChange('');
+              setOpen(false);
+            }}
+            className="p-0.5 rounded opacity-60 hover:opacity-100"
+            aria-label={messages.clearSearch}
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        )}
+      </div>
+
+      <AnimatePresence>
+        {open && query.trim() && (
+          <motion.div
+            className="absolute left-4 right-4 top-full z-30 mt-1 overflow-y-auto rounded-lg border shadow-xl"
+            style={{ maxHeight: 400, backgroundColor: bgColor, borderColor, color: textColor }}
+            initial={{ opacity: 0, y: -4 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -4 }}
+            transition={{ duration: 0.15 }}
+          >
+            {groups.length === 0 ? (
+              <p className="px-4 py-6 text-center text-sm opacity-60">
+                {error ?? (searching ? messages.searching : messages.noSearchResults)}
+              </p>
+            ) : (
+              groups.map(group => (
+                <div key={group.date.getTime()}>
+                  <div
+                    className="sticky top-0 px-4 py-1.5 text-xs font-semibold uppercase tracking-wider border-b"
+                    style={{ backgroundColor: bgColor, borderColor }}
+                  >
+                    <span className="opacity-60">{formatAgendaDay(group.date, today, i18n)}</span>
+                  </div>
+                  {group.events.map((event, idx) => {
+                    const highlights = searchEvent(event, query) ?? {};
+                    const eventColors = getEventColors(event);
+
+                    // Show the description only where it matched, around the first match
+                    let snippet: { text: string; ranges: Array<[number, number]> } | null = null;
+                    if (event.description && highlights.description?.length) {
+                      const first = Math.min(...highlights.description.map(([start]) => start));
+                      const from = Math.max(0, first - SNIPPET_BEFORE);
+                      const to = Math.min(event.description.length, from + SNIPPET_LENGTH);
+                      const prefix = from > 0 ? '…' : '';
+                      snippet = {
+                        text: `${prefix}${event.description.slice(from, to)}${to < event.description.length ? '…' : ''}`,
+                        ranges: highlights.description
+                          .filter(([start, end]) => start >= from && end <= to)
+                          .map(([start, end]) => [start - from + prefix.length, end - from + prefix.length]),
+                      };
+                    }
+
+                    return (
+                      <button
+                        key={`${event.id}-${idx}`}
+                        onClick={() => {
+                          setOpen(false);
+                          onSelect(event);
+                        }}
+                        className="flex w-full gap-3 px-4 py-2 text-left border-b hover:opacity-80"
+                        style={{ borderColor }}
+                      >
+                        <span className="w-1 self-stretch flex-shrink-0 rounded-full" style={{ backgroundColor: eventColors.borderColor }} />
+                        <span className="min-w-0 flex-1">
+                          <span className="block text-sm font-medium truncate">
+                            <Highlighted text={event.title} ranges={highlights.title} accentColor={accentColor} />
+                          </span>
+                          <span className="block text-xs opacity-70 truncate">
+                            {event.allDay ? messages.allDay : event.start.dateTime && formatTime(event.start.dateTime, i18n)}
+                            {event.location && (
+                              <>
+                                {' · '}
+                                <Highlighted text={event.location} ranges={highlights.location} accentColor={accentColor} />
+                              </>
+                            )}
+                          </span>
+                          {snippet && (
+                            <span className="block text-xs opacity-60 line-clamp-2">
+                              <Highlighted text={snippet.text} ranges={snippet.ranges} accentColor={accentColor} />
+                            </span>
+                          )}
+                        </span>
+                      </button>
+                    );
+                  })}
+                </div>
+              ))
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
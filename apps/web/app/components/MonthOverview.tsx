@@ -0,0 +1,154 @@
+'use client';
+
+import { useMemo } from 'react';
+import { motion } from 'motion/react';
+import { CalendarEvent } from '../api/calendar/route';
+import {
+  EventColors,
+  getDayNames,
+  getEventEndDate,
+  getEventStartDate,
+  getMonthWeeks,
+  hexToRgba,
+  isSameDay,
+} from './calendar-utils';
+import { CalendarI18n } from './i18n';
+
+const MAX_DOTS = 3;
+
+interface MonthOverviewProps {
+  months: Date[];                  // First day of each month to show
+  events: CalendarEvent[];
+  markerStyle: 'dots' | 'heat';
+  showYear: boolean;               // Include the year in month titles
+  i18n: CalendarI18n;
+  today: Date;                     // In the zone the calendar is shown in
+  getEventColors: (event: CalendarEvent) => EventColors;
+  onDayClick: (date: Date) => void;
+  accentColor: string;
+  textColor: string;
+  borderColor: string;
+}
+
+function dayKey(date: Date): string {
+  return `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+}
+
+// Events on each day they cover, keyed by dayKey
+function groupEventsByDay(events: CalendarEvent[]): Map<string, CalendarEvent[]> {
+  const byDay = new Map<string, CalendarEvent[]>();
+
+  for (const event of events) {
+    const start = getEventStartDate(event);
+    let end = getEventEndDate(event);
+    // Timed events ending at midnight don't touch the next day
+    if (!event.allDay && end > start && end.getHours() === 0 && end.getMinutes() === 0) {
+      end = new Date(end.getTime() - 1);
+    }
+
+    const day = new Date(start);
+    day.setHours(0, 0, 0, 0);
+    for (let i = 0; day <= end && i < 366; i++) {
+      const key = dayKey(day);
+      const dayEvents = byDay.get(key);
+      if (dayEvents) {
+        dayEvents.push(event);
+      } else {
+        byDay.set(key, [event]);
+      }
+      day.setDate(day.getDate() + 1);
+    }
+  }
+
+  return byDay;
+}
+
+// Compact month grids for the year and multi-month views. Days with events
+// get colored dots or heat shading; clicking a day opens it in month view.
+export default function MonthOverview({
+  months,
+  events,
+  markerStyle,
+  showYear,
+  i18n,
+  today,
+  getEventColors,
+  onDayClick,
+  accentColor,
+  textColor,
+  borderColor,
+}: MonthOverviewProps) {
+  const eventsByDay = useMemo(() => groupEventsByDay(events), [events]);
+  const maxCount = useMemo(
+    () => Math.max(1, ...Array.from(eventsByDay.values(), dayEvents => dayEvents.length)),
+    [eventsByDay]
+  );
+
+  return (
+    <div
+      className="grid gap-4 p-4"
+      style={{ gridTemplateColumns: 'repeat(auto-fill, minmax(190px, 1fr))' }}
+    >
+      {months.map((month, monthIndex) => (
+        <motion.div
+          key={month.toISOString()}
+          className="rounded-lg border p-2"
+          style={{ borderColor }}
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: monthIndex * 0.03 }}
+        >
+          <h4 className="text-sm font-semibold px-1 mb-1.5" style={{ color: textColor }}>
+            {month.toLocaleDateString(i18n.locale, { month: 'long', year: showYear ? 'numeric' : undefined })}
+          </h4>
+
+          <div className="grid grid-cols-7 text-center">
+            {getDayNames(i18n.locale, i18n.weekStartsOn, 'narrow').map((day, i) => (
+              <div key={i} className="text-[10px] uppercase" style={{ color: textColor, opacity: 0.4 }}>
+                {day}
+              </div>
+            ))}
+
+            {getMonthWeeks(month.getFullYear(), month.getMonth(), i18n.weekStartsOn).flat().map((cell, cellIndex) => {
+              if (!cell.date) return <div key={cellIndex} />;
+
+              const dayEvents = eventsByDay.get(dayKey(cell.date)) || [];
+              const isCurrentDay = isSameDay(cell.date, today);
+              const intensity = dayEvents.length / maxCount;
+              const heat = markerStyle === 'heat' && dayEvents.length > 0;
+
+              return (
+                <motion.button
+                  key={cellIndex}
+                  onClick={() => onDayClick(cell.date!)}
+                  className="relative flex flex-col items-center justify-start h-8 pt-0.5 rounded text-xs"
+                  style={{
+                    color: heat && intensity > 0.5 ? '#ffffff' : isCurrentDay ? accentColor : textColor,
+                    fontWeight: isCurrentDay ? 700 : undefined,
+                    backgroundColor: heat ? hexToRgba(accentColor, 15 + 65 * intensity) : 'transparent',
+                  }}
+                  title={dayEvents.length > 0 ? i18n.messages.eventCount(dayEvents.length) : undefined}
+                  whileHover={{ scale: 1.15, backgroundColor: heat ? undefined : `${accentColor}20` }}
+                  whileTap={{ scale: 0.95 }}
+                >
+                  <span className={isCurrentDay ? 'underline underline-offset-2' : ''}>{cell.day}</span>
+                  {markerStyle === 'dots' && dayEvents.length > 0 && (
+                    <span className="flex gap-0.5 mt-0.5">
+                      {dayEvents.slice(0, MAX_DOTS).map((event, i) => (
+                        <span
+                          key={event.id || i}
+                          className="w-1 h-1 rounded-full"
+                          style={{ backgroundColor: getEventColors(event).borderColor }}
+                        />
+                      ))}
+                    </span>
+                  )}
+                </motion.button>
+              );
+            })}
+          </div>
+        </motion.div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,427 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { AnimatePresence, motion } from 'motion/react';
+import { CalendarEvent } from '../api/calendar/route';
+import {
+  EventColors,
+  eventSpansDay,
+  eventStartsOnDay,
+  formatTime,
+  getEventEndDate,
+  getEventStartDate,
+  isSameDay,
+  toZonedTime,
+} from './calendar-utils';
+import DayEventsPopover from './DayEventsPopover';
+import { CalendarI18n } from './i18n';
+
+const HOUR_HEIGHT = 48;          // px per hour in the grid
+const MIN_EVENT_HEIGHT = 20;     // px, so short events stay clickable
+const ALL_DAY_ROW_HEIGHT = 24;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface TimeGridProps {
+  days: Date[];
+  events: CalendarEvent[];
+  startHour: number;
+  endHour: number;
+  maxAllDayRows: number;           // All-day rows shown before "+N more"
+  i18n: CalendarI18n;
+  timeZone: string;                // Zone the view is shown in
+  now: Date;                       // Current time in that zone, for the now line
+  getEventColors: (event: CalendarEvent) => EventColors;
+  onEventClick: (event: CalendarEvent) => void;
+  accentColor: string;
+  textColor: string;
+  borderColor: string;
+  bgColor: string;
+}
+
+interface TimedPlacement {
+  event: CalendarEvent;
+  top: number;
+  height: number;
+  column: number;
+  columns: number;
+}
+
+interface AllDayPlacement {
+  event: CalendarEvent;
+  startCol: number;
+  span: number;
+  row: number;
+}
+
+// All-day events and anything lasting a day or more go in the top strip
+function isAllDayEvent(event: CalendarEvent): boolean {
+  if (event.allDay) return true;
+  return getEventEndDate(event).getTime() - getEventStartDate(event).getTime() >= DAY_MS;
+}
+
+// Minutes since midnight of `day`, clamped to that day. Uses wall-clock
+// fields so DST changes don't shift the grid.
+function minutesIntoDay(date: Date, day: Date): number {
+  if (isSameDay(date, day)) return date.getHours() * 60 + date.getMinutes();
+  return date < day ? 0 : 24 * 60;
+}
+
+// Position the timed events of one day. Events that overlap are grouped
+// into clusters and placed side by side in the first free column.
+function layoutDay(events: CalendarEvent[], day: Date, startHour: number, endHour: number): TimedPlacement[] {
+  const rangeStart = startHour * 60;
+  const rangeEnd = endHour * 60;
+  const minMinutes = (MIN_EVENT_HEIGHT / HOUR_HEIGHT) * 60;
+
+  const segments = events
+    .filter(event => !isAllDayEvent(event) && eventSpansDay(event, day))
+    .map(event => {
+      const start = minutesIntoDay(getEventStartDate(event), day);
+      const end = minutesIntoDay(getEventEndDate(event), day);
+      return {
+        event,
+        // Events ending exactly at midnight don't continue into this day
+        continuesIntoDay: end > start || eventStartsOnDay(event, day),
+        start: Math.max(start, rangeStart),
+        end: Math.min(Math.max(end, start + minMinutes), rangeEnd),
+      };
+    })
+    .filter(segment => segment.continuesIntoDay && segment.start < rangeEnd && segment.end > rangeStart)
+    .sort((a, b) => a.start - b.start || b.end - a.end);
+
+  const placements: TimedPlacement[] = [];
+  let cluster: TimedPlacement[] = [];
+  let columnEnds: number[] = [];
+  let clusterEnd = 0;
+
+  const finishCluster = () => {
+    cluster.forEach(placement => { placement.columns = columnEnds.length; });
+    cluster = [];
+    columnEnds = [];
+    clusterEnd = 0;
+  };
+
+  for (const segment of segments) {
+    if (cluster.length > 0 && segment.start >= clusterEnd) finishCluster();
+
+    const visualEnd = Math.max(segment.end, segment.start + minMinutes);
+    let column = columnEnds.findIndex(end => end <= segment.start);
+    if (column === -1) {
+      column = columnEnds.length;
+      columnEnds.push(visualEnd);
+    } else {
+      columnEnds[column] = visualEnd;
+    }
+    clusterEnd = Math.max(clusterEnd, visualEnd);
+
+    const placement: TimedPlacement = {
+      event: segment.event,
+      top: ((segment.start - rangeStart) / 60) * HOUR_HEIGHT,
+      height: Math.max(((segment.end - segment.start) / 60) * HOUR_HEIGHT, MIN_EVENT_HEIGHT),
+      column,
+      columns: 1,
+    };
+    cluster.push(placement);
+    placements.push(placement);
+  }
+  finishCluster();
+
+  return placements;
+}
+
+// Stack all-day events into rows, each spanning the days it covers
+function layoutAllDay(events: CalendarEvent[], days: Date[]): AllDayPlacement[] {
+  const occupied = new Set<string>();
+  const placements: AllDayPlacement[] = [];
+
+  const allDayEvents = events
+    .filter(isAllDayEvent)
+    .sort((a, b) =>
+      getEventStartDate(a).getTime() - getEventStartDate(b).getTime() ||
+      getEventEndDate(b).getTime() - getEventEndDate(a).getTime()
+    );
+
+  for (const event of allDayEvents) {
+    const cols = days.map((day, i) => (eventSpansDay(event, day) ? i : -1)).filter(i => i >= 0);
+    if (cols.length === 0) continue;
+
+    const startCol = cols[0];
+    const span = cols[cols.length - 1] - startCol + 1;
+
+    let row = 0;
+    while (Array.from({ length: span }).some((_, i) => occupied.has(`${row}-${startCol + i}`))) row++;
+    for (let i = 0; i < span; i++) occupied.add(`${row}-${startCol + i}`);
+
+    placements.push({ event, startCol, span, row });
+  }
+
+  return placements;
+}
+
+function formatHour(hour: number, { locale, hour12 }: CalendarI18n): string {
+  return new Date(2000, 0, 1, hour).toLocaleTimeString(locale, { hour: 'numeric', hour12 });
+}
+
+// Day and week views: an hour axis with timed events positioned by start and
+// end, all-day events in a strip above, and a line at the current time
+export default function TimeGrid({
+  days,
+  events,
+  startHour,
+  endHour,
+  maxAllDayRows,
+  i18n,
+  timeZone,
+  now,
+  getEventColors,
+  onEventClick,
+  accentColor,
+  textColor,
+  borderColor,
+  bgColor,
+}: TimeGridProps) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Keep the hour range sane even with odd config values
+  const firstHour = Math.min(Math.max(Math.floor(startHour), 0), 23);
+  const lastHour = Math.max(Math.min(Math.ceil(endHour), 24), firstHour + 1);
+  const hours = Array.from({ length: lastHour - firstHour }, (_, i) => firstHour + i);
+
+  const allDayPlacements = useMemo(() => layoutAllDay(events, days), [events, days]);
+  const dayPlacements = useMemo(
+    () => days.map(day => layoutDay(events, day, firstHour, lastHour)),
+    [events, days, firstHour, lastHour]
+  );
+  const allDayRows = allDayPlacements.reduce((rows, placement) => Math.max(rows, placement.row + 1), 0);
+  const allDayRowLimit = Math.max(1, maxAllDayRows);
+  const hiddenAllDay = days.map((_, col) => allDayPlacements.filter(({ startCol, span, row }) =>
+    row >= allDayRowLimit && col >= startCol && col < startCol + span
+  ).length);
+  const hasHiddenAllDay = hiddenAllDay.some(count => count > 0);
+  // Rows drawn in the strip, plus one for the "+N more" indicators
+  const shownAllDayRows = Math.min(allDayRows, allDayRowLimit) + (hasHiddenAllDay ? 1 : 0);
+
+  // Day column whose all-day overflow popover is open
+  const [overflowCol, setOverflowCol] = useState<number | null>(null);
+  const closeOverflow = useCallback(() => setOverflowCol(null), []);
+
+  const nowMinutes = now.getHours() * 60 + now.getMinutes();
+  const nowTop = ((nowMinutes - firstHour * 60) / 60) * HOUR_HEIGHT;
+  const showsNow = days.some(day => isSameDay(day, now)) && nowMinutes >= firstHour * 60 && nowMinutes <= lastHour * 60;
+
+  // Start scrolled to just before the current time when today is visible.
+  // Only on mount and when the visible days or hours change, so it reads the
+  // clock itself rather than following `now`.
+  const firstDay = days[0]?.getTime();
+  const dayCount = days.length;
+  useEffect(() => {
+    if (!scrollRef.current || firstDay === undefined) return;
+
+    const current = toZonedTime(new Date(), timeZone);
+    const minutes = current.getHours() * 60 + current.getMinutes();
+    const today = new Date(current.getFullYear(), current.getMonth(), current.getDate());
+    const start = new Date(firstDay);
+    const end = new Date(start.getFullYear(), start.getMonth(), start.getDate() + dayCount);
+    if (today < start || today >= end || minutes < firstHour * 60 || minutes > lastHour * 60) return;
+
+    scrollRef.current.scrollTop = Math.max(((minutes - firstHour * 60) / 60) * HOUR_HEIGHT - HOUR_HEIGHT, 0);
+  }, [firstDay, dayCount, firstHour, lastHour, timeZone]);
+
+  const gridColumns = `3.5rem repeat(${days.length}, minmax(0, 1fr))`;
+
+  return (
+    <div>
+      {/* Day headers */}
+      <div className="grid border-b" style={{ gridTemplateColumns: gridColumns, borderColor }}>
+        <div />
+        {days.map((day, dayIndex) => {
+          const isCurrentDay = isSameDay(day, now);
+
+          return (
+            <div key={dayIndex} className="text-center py-2 border-l" style={{ borderColor }}>
+              <div className="text-xs uppercase tracking-wider" style={{ color: textColor, opacity: 0.5 }}>
+                {day.toLocaleDateString(i18n.locale, { weekday: 'short' })}
+              </div>
+              <div
+                className={`w-8 h-8 mx-auto mt-1 flex items-center justify-center rounded-full font-medium ${isCurrentDay ? 'text-white' : ''}`}
+                style={{ backgroundColor: isCurrentDay ? accentColor : 'transparent' }}
+              >
+                {day.getDate()}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* All-day strip */}
+      {allDayRows > 0 && (
+        <div className="grid border-b" style={{ gridTemplateColumns: gridColumns, borderColor }}>
+          <div className="text-[10px] uppercase tracking-wider text-right pr-2 pt-1.5" style={{ color: textColor, opacity: 0.5 }}>
+            {i18n.messages.allDay}
+          </div>
+          <div
+            className="relative border-l"
+            style={{ gridColumn: `span ${days.length}`, height: shownAllDayRows * ALL_DAY_ROW_HEIGHT + 4, borderColor }}
+          >
+            {allDayPlacements.filter(({ row }) => row < allDayRowLimit).map(({ event, startCol, span, row }, idx) => {
+              const eventColors = getEventColors(event);
+              const continues = !eventStartsOnDay(event, days[startCol]);
+
+              return (
+                <motion.div
+                  key={event.id || idx}
+                  className="absolute text-xs px-2 py-0.5 rounded cursor-pointer truncate"
+                  style={{
+                    left: `calc(${(startCol / days.length) * 100}% + 2px)`,
+                    width: `calc(${(span / days.length) * 100}% - 4px)`,
+                    top: row * ALL_DAY_ROW_HEIGHT + 2,
+                    height: ALL_DAY_ROW_HEIGHT - 4,
+                    backgroundColor: eventColors.backgroundColor,
+                    color: eventColors.color,
+                    borderLeft: `3px solid ${eventColors.borderColor}`,
+                  }}
+                  initial={{ opacity: 0, scale: 0.9 }}
+                  animate={{ opacity: 1, scale: 1 }}
+                  whileHover={{ scale: 1.02, zIndex: 10 }}
+                  onClick={() => onEventClick(event)}
+                >
+                  {continues && '← '}
+                  {event.title}
+                </motion.div>
+              );
+            })}
+            {hiddenAllDay.map((count, col) => count > 0 && (
+              <motion.button
+                key={`more-${col}`}
+                className="absolute text-xs px-2 rounded truncate text-left"
+                style={{
+                  left: `calc(${(col / days.length) * 100}% + 2px)`,
+                  width: `calc(${(1 / days.length) * 100}% - 4px)`,
+                  top: allDayRowLimit * ALL_DAY_ROW_HEIGHT + 2,
+                  height: ALL_DAY_ROW_HEIGHT - 4,
+                  color: textColor,
+                }}
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 0.7 }}
+                whileHover={{ opacity: 1, backgroundColor: `${accentColor}15` }}
+                onClick={() => setOverflowCol(col)}
+              >
+                {i18n.messages.moreEvents(count)}
+              </motion.button>
+            ))}
+
+            <AnimatePresence>
+              {overflowCol !== null && overflowCol < days.length && (
+                <DayEventsPopover
+                  date={days[overflowCol]}
+                  events={allDayPlacements
+                    .filter(({ startCol, span }) => overflowCol >= startCol && overflowCol < startCol + span)
+                    .map(({ event }) => event)}
+                  column={overflowCol}
+                  columns={days.length}
+                  top={shownAllDayRows * ALL_DAY_ROW_HEIGHT}
+                  i18n={i18n}
+                  getEventColors={getEventColors}
+                  onEventClick={event => {
+                    setOverflowCol(null);
+                    onEventClick(event);
+                  }}
+                  onClose={closeOverflow}
+                  textColor={textColor}
+                  bgColor={bgColor}
+                  borderColor={borderColor}
+                />
+              )}
+            </AnimatePresence>
+          </div>
+        </div>
+      )}
+
+      {/* Hour grid */}
+      <div ref={scrollRef} className="overflow-y-auto" style={{ maxHeight: 560 }}>
+        <div className="grid relative" style={{ gridTemplateColumns: gridColumns }}>
+          {/* Hour labels */}
+          <div>
+            {hours.map(hour => (
+              <div
+                key={hour}
+                className="text-[10px] text-right pr-2 -mt-1.5"
+                style={{ height: HOUR_HEIGHT, color: textColor, opacity: 0.5 }}
+              >
+                {hour > firstHour && formatHour(hour, i18n)}
+              </div>
+            ))}
+          </div>
+
+          {days.map((day, dayIndex) => {
+            const isCurrentDay = isSameDay(day, now);
+
+            return (
+              <div
+                key={dayIndex}
+                className="relative border-l"
+                style={{
+                  borderColor,
+                  height: hours.length * HOUR_HEIGHT,
+                  backgroundColor: isCurrentDay ? `${accentColor}08` : 'transparent',
+                }}
+              >
+                {/* Hour lines */}
+                {hours.map((hour, i) => (
+                  <div
+                    key={hour}
+                    className="absolute left-0 right-0 border-t"
+                    style={{ top: i * HOUR_HEIGHT, borderColor }}
+                  />
+                ))}
+
+                {/* Timed events */}
+                {dayPlacements[dayIndex].map(({ event, top, height, column, columns }, idx) => {
+                  const eventColors = getEventColors(event);
+
+                  return (
+                    <motion.div
+                      key={event.id || idx}
+                      className="absolute text-xs px-1.5 py-1 rounded cursor-pointer overflow-hidden"
+                      style={{
+                        top,
+                        height,
+                        left: `calc(${(column / columns) * 100}% + 1px)`,
+                        width: `calc(${100 / columns}% - 2px)`,
+                        backgroundColor: eventColors.backgroundColor,
+                        color: eventColors.color,
+                        borderLeft: `3px solid ${eventColors.borderColor}`,
+                        boxShadow: `0 0 0 1px ${bgColor}`,
+                      }}
+                      initial={{ opacity: 0, scale: 0.95 }}
+                      animate={{ opacity: 1, scale: 1 }}
+                      transition={{ delay: idx * 0.03 }}
+                      whileHover={{ zIndex: 10, boxShadow: '0 4px 12px rgba(0,0,0,0.3)' }}
+                      onClick={() => onEventClick(event)}
+                    >
+                      <div className="font-medium truncate">{event.title}</div>
+                      {height >= 36 && event.start.dateTime && (
+                        <div className="opacity-70 truncate">
+                          {formatTime(event.start.dateTime, i18n)}
+                          {event.end?.dateTime && ` - ${formatTime(event.end.dateTime, i18n)}`}
+                        </div>
+                      )}
+                    </motion.div>
+                  );
+                })}
+
+                {/* Now line */}
+                {isCurrentDay && showsNow && (
+                  <div className="absolute left-0 right-0 z-20 pointer-events-none" style={{ top: nowTop }}>
+                    <div className="absolute -left-1 -top-1 w-2 h-2 rounded-full" style={{ backgroundColor: accentColor }} />
+                    <div className="border-t-2" style={{ borderColor: accentColor }} />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+// Links for copying an event into other calendar apps
+
+import { CalendarEvent } from '../api/calendar/route';
+import { calendarSubscribeUrl } from '../types';
+
+export interface AddToCalendarLinks {
+  google: string;
+  outlook: string;
+  ics: string | null;          // Needs the event's calendar, to look it up on the server
+  subscribe: string | null;    // The whole calendar, as webcal://
+}
+
+function hasOffset(dateTime: string): boolean {
+  return /(Z|[+-]\d{2}:\d{2})$/.test(dateTime);
+}
+
+// The day after a YYYY-MM-DD date
+function nextDay(date: string): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString().slice(0, 10);
+}
+
+// Start and end as sent by the API; all-day ends are exclusive
+function eventBounds(event: CalendarEvent): { start: CalendarEvent['start']; end: CalendarEvent['end'] } {
+  const { start } = event;
+  if (start.date) {
+    return { start, end: event.end?.date ? event.end : { date: nextDay(start.date) } };
+  }
+  return { start, end: event.end?.dateTime ? event.end : start };
+}
+
+// 20261020, 20261020T130000Z, or 20261020T090000 for floating times
+function compactTime(value: CalendarEvent['start']): string {
+  if (value.date) return value.date.replace(/-/g, '');
+  const dateTime = value.dateTime!;
+  return hasOffset(dateTime)
+    ? new Date(dateTime).toISOString().replace(/[-:]|\.\d{3}/g, '')
+    : dateTime.replace(/[-:]/g, '').slice(0, 15);
+}
+
+function isoTime(value: CalendarEvent['start']): string {
+  if (value.date) return value.date;
+  return hasOffset(value.dateTime!) ? new Date(value.dateTime!).toISOString() : value.dateTime!;
+}
+
+export function googleCalendarUrl(event: CalendarEvent): string {
+  const { start, end } = eventBounds(event);
+  const params = new URLSearchParams({
+    action: 'TEMPLATE',
+    text: event.title,
+    dates: `${compactTime(start)}/${compactTime(end)}`,
+  });
+  if (event.description) params.set('details', event.description);
+  if (event.location) params.set('location', event.location);
+  return `https://calendar.google.com/calendar/render?${params}`;
+}
+
+export function outlookCalendarUrl(event: CalendarEvent): string {
+  const { start, end } = eventBounds(event);
+  const params = new URLSearchParams({
+    path: '/calendar/action/compose',
+    rru: 'addevent',
+    subject: event.title,
+    startdt: isoTime(start),
+    enddt: isoTime(end),
+  });
+  if (event.allDay) params.set('allday', 'true');
+  if (event.description) params.set('body', event.description);
+  if (event.location) params.set('location', event.location);
+  return `https://outlook.live.com/calendar/0/deeplink/compose?${params}`;
+}
+
+// `event` must carry the times the API sent, not ones shifted for display;
+// calendarUrl is the calendar it came from, as given in the embed config
+export function getAddToCalendarLinks(event: CalendarEvent, calendarUrl?: string): AddToCalendarLinks {
+  const ics = calendarUrl
+    ? `/api/calendar/event.ics?${new URLSearchParams({ url: calendarUrl, id: event.id })}`
+    : null;
+
+  return {
+    google: googleCalendarUrl(event),
+    outlook: outlookCalendarUrl(event),
+    ics,
+    subscribe: calendarUrl ? calendarSubscribeUrl(calendarUrl) : null,
+  };
+}
@@ -0,0 +1,340 @@
+// Date and color helpers shared by the calendar views
+
+import { CalendarEvent } from '../api/calendar/route';
+import { normalizeColor } from '../lib/colors';
+import { getTimeZoneOffset, isValidTimeZone } from '../lib/timezone';
+import { CalendarConfig, CalendarSourceConfig, EventColorRule } from '../types';
+import { CalendarI18n } from './i18n';
+
+// Helper function to convert hex color and opacity percentage to rgba
+export function hexToRgba(hex: string, opacity: number): string {
+  // Remove # if present
+  hex = hex.replace('#', '');
+  
+  // Handle shorthand hex (e.g., #fff)
+  if (hex.length === 3) {
+    hex = hex[0] + hex[0] + hex[1] + hex[1] + hex[2] + hex[2];
+  }
+  
+  // Parse RGB values
+  const r = parseInt(hex.substring(0, 2), 16) || 0;
+  const g = parseInt(hex.substring(2, 4), 16) || 0;
+  const b = parseInt(hex.substring(4, 6), 16) || 0;
+  
+  // Convert opacity percentage (0-100) to alpha (0-1)
+  const alpha = Math.max(0, Math.min(100, opacity)) / 100;
+  
+  return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+}
+
+// Helper function to determine if text should be light or dark based on background
+export function getContrastTextColor(hexColor: string, opacity: number): string {
+  // Remove # if present
+  const hex = hexColor.replace('#', '');
+  
+  // Handle shorthand hex
+  const fullHex = hex.length === 3 
+    ? hex[0] + hex[0] + hex[1] + hex[1] + hex[2] + hex[2]
+    : hex;
+  
+  const r = parseInt(fullHex.substring(0, 2), 16) || 0;
+  const g = parseInt(fullHex.substring(2, 4), 16) || 0;
+  const b = parseInt(fullHex.substring(4, 6), 16) || 0;
+  
+  // Calculate relative luminance
+  const luminance = (0.299 * r + 0.587 * g + 0.114 * b) / 255;
+  
+  // If opacity is high enough and background is dark, use white text
+  // If opacity is low, use the event color itself for better visibility
+  if (opacity >= 60) {
+    return luminance > 0.5 ? '#000000' : '#ffffff';
+  } else {
+    // For lower opacity, use a darker version of the event color or the color itself
+    return hexColor;
+  }
+}
+
+// Resolved colors for drawing one event
+export interface EventColors {
+  backgroundColor: string;
+  color: string;
+  borderColor: string;
+}
+
+// Whether a color rule or tab group applies to an event. Keywords and
+// categories compare case-insensitively; colors compare as #rrggbb, so 'red'
+// matches '#f00'.
+export function matchesEventRule(rule: Pick<EventColorRule, 'field' | 'value'>, event: CalendarEvent): boolean {
+  const value = rule.value.trim().toLowerCase();
+  if (!value) return false;
+
+  switch (rule.field) {
+    case 'title':
+      return event.title.toLowerCase().includes(value);
+    case 'category':
+      return (event.categories ?? []).some(category => category.toLowerCase() === value);
+    case 'color':
+      return !!event.color && event.color === normalizeColor(value);
+  }
+}
+
+// Fill and border colors for an event: the first color rule it matches,
+// otherwise the color from the feed or the calendar it came from
+export function resolveEventColors(
+  event: CalendarEvent,
+  config: Pick<CalendarConfig, 'colorRules' | 'eventColor' | 'eventOpacity' | 'eventBorderColor' | 'eventBorderOpacity'>,
+  sources: CalendarSourceConfig[]
+): EventColors {
+  const rule = config.colorRules.find(rule => matchesEventRule(rule, event));
+  if (rule) {
+    return {
+      backgroundColor: hexToRgba(rule.color, rule.opacity),
+      color: getContrastTextColor(rule.color, rule.opacity),
+      borderColor: hexToRgba(rule.borderColor, config.eventBorderOpacity),
+    };
+  }
+
+  const source = event.sourceId && event.sourceId !== 'primary'
+    ? sources.find(s => s.id === event.sourceId)
+    : undefined;
+  const fill = event.color ?? source?.color ?? config.eventColor;
+  const border = event.color ?? source?.color ?? config.eventBorderColor;
+
+  return {
+    backgroundColor: hexToRgba(fill, config.eventOpacity),
+    color: getContrastTextColor(fill, config.eventOpacity),
+    borderColor: hexToRgba(border, config.eventBorderOpacity),
+  };
+}
+
+export interface MonthCell {
+  day: number | null;
+  date: Date | null;
+}
+
+export function getDaysInMonth(year: number, month: number): number {
+  return new Date(year, month + 1, 0).getDate();
+}
+
+export function getFirstDayOfMonth(year: number, month: number): number {
+  return new Date(year, month, 1).getDay();
+}
+
+// Weeks of a month, padded with empty cells before the 1st and after the last day.
+// weekStartsOn picks the first column (0 = Sunday, 1 = Monday).
+export function getMonthWeeks(year: number, month: number, weekStartsOn = 0): MonthCell[][] {
+  const daysInMonth = getDaysInMonth(year, month);
+  const firstDay = (getFirstDayOfMonth(year, month) - weekStartsOn + 7) % 7;
+  const weeks: MonthCell[][] = [];
+  
+  let currentWeek: MonthCell[] = [];
+  
+  // Add empty cells for days before the first day of the month
+  for (let i = 0; i < firstDay; i++) {
+    currentWeek.push({ day: null, date: null });
+  }
+  
+  // Add the days of the month
+  for (let day = 1; day <= daysInMonth; day++) {
+    currentWeek.push({ 
+      day, 
+      date: new Date(year, month, day) 
+    });
+    
+    if (currentWeek.length === 7) {
+      weeks.push(currentWeek);
+      currentWeek = [];
+    }
+  }
+  
+  // Fill remaining days in the last week
+  while (currentWeek.length > 0 && currentWeek.length < 7) {
+    currentWeek.push({ day: null, date: null });
+  }
+  if (currentWeek.length > 0) {
+    weeks.push(currentWeek);
+  }
+  
+  return weeks;
+}
+
+export function formatTime(dateString: string, { locale, hour12 }: Pick<CalendarI18n, 'locale' | 'hour12'>): string {
+  const date = new Date(dateString);
+  return date.toLocaleTimeString(locale, { 
+    hour: 'numeric', 
+    minute: '2-digit',
+    hour12,
+  });
+}
+
+export function formatDate(dateString: string, { locale }: Pick<CalendarI18n, 'locale'>): string {
+  const date = new Date(dateString);
+  return date.toLocaleDateString(locale, { 
+    weekday: 'short',
+    month: 'short', 
+    day: 'numeric' 
+  });
+}
+
+export function isSameDay(date1: Date, date2: Date): boolean {
+  return date1.getFullYear() === date2.getFullYear() &&
+         date1.getMonth() === date2.getMonth() &&
+         date1.getDate() === date2.getDate();
+}
+
+// A day as YYYY-MM-DD, as used in links
+export function formatDateKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+// The local day a YYYY-MM-DD key names, or null if it isn't one
+export function parseDateKey(value: string | null | undefined): Date | null {
+  const match = value?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return formatDateKey(date) === value ? date : null;
+}
+
+// Get event start date as Date object
+export function getEventStartDate(event: CalendarEvent): Date {
+  if (event.start.dateTime) {
+    return new Date(event.start.dateTime);
+  } else if (event.start.date) {
+    return new Date(event.start.date + 'T00:00:00');
+  }
+  return new Date();
+}
+
+// Get event end date as Date object
+export function getEventEndDate(event: CalendarEvent): Date {
+  if (event.end?.dateTime) {
+    return new Date(event.end.dateTime);
+  } else if (event.end?.date) {
+    // For all-day events, end date is exclusive
+    const endDate = new Date(event.end.date + 'T00:00:00');
+    endDate.setDate(endDate.getDate() - 1);
+    return endDate;
+  }
+  return getEventStartDate(event);
+}
+
+// Check if event spans this day
+export function eventSpansDay(event: CalendarEvent, targetDate: Date): boolean {
+  const eventStart = getEventStartDate(event);
+  const eventEnd = getEventEndDate(event);
+  
+  const targetStart = new Date(targetDate);
+  targetStart.setHours(0, 0, 0, 0);
+  
+  const targetEnd = new Date(targetDate);
+  targetEnd.setHours(23, 59, 59, 999);
+  
+  const eventStartDay = new Date(eventStart);
+  eventStartDay.setHours(0, 0, 0, 0);
+  
+  const eventEndDay = new Date(eventEnd);
+  eventEndDay.setHours(23, 59, 59, 999);
+  
+  return targetStart <= eventEndDay && targetEnd >= eventStartDay;
+}
+
+// Check if event starts on this day
+export function eventStartsOnDay(event: CalendarEvent, targetDate: Date): boolean {
+  const eventStart = getEventStartDate(event);
+  return isSameDay(eventStart, targetDate);
+}
+
+export function getMonthName(month: number, locale: string): string {
+  return new Date(2000, month, 1).toLocaleDateString(locale, { month: 'long' });
+}
+
+// Weekday names in column order, starting at weekStartsOn
+export function getDayNames(locale: string, weekStartsOn = 0, width: 'short' | 'narrow' = 'short'): string[] {
+  // 2000-01-02 was a Sunday
+  return Array.from({ length: 7 }, (_, i) =>
+    new Date(2000, 0, 2 + ((weekStartsOn + i) % 7)).toLocaleDateString(locale, { weekday: width })
+  );
+}
+
+// The browser's own timezone
+export function getViewerTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+// Every IANA zone the browser knows, for the timezone pickers
+export function getTimeZones(): string[] {
+  return typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+}
+
+// The zone to display: the first valid candidate, else the viewer's
+export function resolveTimeZone(...candidates: Array<string | null | undefined>): string {
+  return candidates.find((zone): zone is string => !!zone && isValidTimeZone(zone)) ?? getViewerTimeZone();
+}
+
+// The zone times are shown in when rendering on the server: the configured
+// zone, or the calendar's when it's left to the viewer, whose zone the
+// server can't know
+export function serverDisplayTimeZone(displayTimeZone: string, calendarTimeZone?: string): string {
+  return resolveTimeZone(
+    displayTimeZone !== 'viewer' && displayTimeZone !== 'calendar' ? displayTimeZone : undefined,
+    calendarTimeZone,
+    'UTC'
+  );
+}
+
+// Wall-clock time of an instant in timeZone, as a Date whose local fields
+// hold it. Day and hour math on the result then happens in that zone.
+export function toZonedTime(instant: Date, timeZone: string): Date {
+  const wallClock = new Date(instant.getTime() + getTimeZoneOffset(instant, timeZone));
+  return new Date(
+    wallClock.getUTCFullYear(),
+    wallClock.getUTCMonth(),
+    wallClock.getUTCDate(),
+    wallClock.getUTCHours(),
+    wallClock.getUTCMinutes(),
+    wallClock.getUTCSeconds()
+  );
+}
+
+function toLocalISOString(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+    `T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+// Rewrite an event's timed start and end as offset-less wall-clock times in
+// timeZone, which the date helpers above then read as local times. All-day
+// dates have no zone and are left alone.
+export function eventInTimeZone(event: CalendarEvent, timeZone: string): CalendarEvent {
+  const shift = (value: CalendarEvent['start']) => value.dateTime
+    ? { ...value, dateTime: toLocalISOString(toZonedTime(new Date(value.dateTime), timeZone)), timeZone }
+    : value;
+
+  return { ...event, start: shift(event.start), end: event.end && shift(event.end) };
+}
+
+// Short label for a zone, e.g. "Paris (GMT+2)"
+export function formatTimeZone(timeZone: string, locale: string): string {
+  const offsetName = new Intl.DateTimeFormat(locale, { timeZone, timeZoneName: 'shortOffset' })
+    .formatToParts(new Date())
+    .find(part => part.type === 'timeZoneName')?.value;
+  const city = timeZone.split('/').pop()!.replace(/_/g, ' ');
+  return offsetName ? `${city} (${offsetName})` : city;
+}
+
+// Agenda day header, e.g. "Today", "Tomorrow" or "Thursday, October 22"
+export function formatAgendaDay(date: Date, today: Date, { locale, messages }: CalendarI18n): string {
+  const tomorrow = new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1);
+  const yesterday = new Date(today.getFullYear(), today.getMonth(), today.getDate() - 1);
+
+  if (isSameDay(date, today)) return messages.today;
+  if (isSameDay(date, tomorrow)) return messages.tomorrow;
+  if (isSameDay(date, yesterday)) return messages.yesterday;
+
+  return date.toLocaleDateString(locale, {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    year: date.getFullYear() !== today.getFullYear() ? 'numeric' : undefined,
+  });
+}
@@ -0,0 +1,248 @@
+import { CalendarConfig } from '../types';
+
+// Every user-facing string in the calendar embed
+export interface CalendarMessages {
+  calendar: string;                        // Fallback calendar name
+  loading: string;
+  loadFailed: string;
+  today: string;
+  tomorrow: string;
+  yesterday: string;
+  agenda: string;
+  upcomingEvents: string;
+  noUpcomingEvents: string;
+  loadMore: string;
+  loadingMore: string;
+  allDay: string;
+  multiDay: string;
+  multiDayEvent: string;
+  location: string;
+  backToYear: string;
+  backToMonths: string;
+  close: string;
+  allTab: string;                          // First of the category tabs
+  timeZone: string;                        // Label of the timezone menu
+  viewerTimeZone: string;
+  calendarTimeZone: string;
+  addToCalendar: string;
+  googleCalendar: string;
+  outlookCalendar: string;
+  downloadIcs: string;
+  subscribe: string;
+  print: string;
+  copyLink: string;
+  linkCopied: string;
+  searchEvents: string;                    // Placeholder of the search box
+  searching: string;
+  noSearchResults: string;
+  clearSearch: string;
+  moreEvents: (count: number) => string;   // "+N more" in crowded day cells
+  eventCount: (count: number) => string;   // Tooltip on overview days
+  eventsOn: (date: string) => string;      // Label of the day events popover
+}
+
+const en: CalendarMessages = {
+  calendar: 'Calendar',
+  loading: 'Loading calendar...',
+  loadFailed: 'Failed to load calendar',
+  today: 'Today',
+  tomorrow: 'Tomorrow',
+  yesterday: 'Yesterday',
+  agenda: 'Agenda',
+  upcomingEvents: 'Upcoming Events',
+  noUpcomingEvents: 'No upcoming events',
+  loadMore: 'Load more',
+  loadingMore: 'Loading...',
+  allDay: 'All day',
+  multiDay: 'Multi-day',
+  multiDayEvent: 'Multi-day event',
+  location: 'Location',
+  backToYear: '← Year',
+  backToMonths: '← Months',
+  close: 'Close',
+  allTab: 'All',
+  timeZone: 'Time zone',
+  viewerTimeZone: 'Your time',
+  calendarTimeZone: 'Calendar time',
+  addToCalendar: 'Add to calendar',
+  googleCalendar: 'Google',
+  outlookCalendar: 'Outlook.com',
+  downloadIcs: 'Apple / .ics',
+  subscribe: 'Subscribe',
+  print: 'Print',
+  copyLink: 'Copy link',
+  linkCopied: 'Link copied',
+  searchEvents: 'Search events',
+  searching: 'Searching...',
+  noSearchResults: 'No matching events',
+  clearSearch: 'Clear search',
+  moreEvents: count => `+${count} more`,
+  eventCount: count => `${count} event${count === 1 ? '' : 's'}`,
+  eventsOn: date => `Events on ${date}`,
+};
+
+const fr: CalendarMessages = {
+  calendar: 'Calendrier',
+  loading: 'Chargement du calendrier...',
+  loadFailed: 'Impossible de charger le calendrier',
+  today: "Aujourd'hui",
+  tomorrow: 'Demain',
+  yesterday: 'Hier',
+  agenda: 'Agenda',
+  upcomingEvents: 'Événements à venir',
+  noUpcomingEvents: 'Aucun événement à venir',
+  loadMore: 'Afficher plus',
+  loadingMore: 'Chargement...',
+  allDay: 'Toute la journée',
+  multiDay: 'Plusieurs jours',
+  multiDayEvent: 'Événement sur plusieurs jours',
+  location: 'Lieu',
+  backToYear: '← Année',
+  backToMonths: '← Mois',
+  close: 'Fermer',
+  allTab: 'Tous',
+  timeZone: 'Fuseau horaire',
+  viewerTimeZone: 'Votre heure',
+  calendarTimeZone: 'Heure du calendrier',
+  addToCalendar: 'Ajouter au calendrier',
+  googleCalendar: 'Google',
+  outlookCalendar: 'Outlook.com',
+  downloadIcs: 'Apple / .ics',
+  subscribe: "S'abonner",
+  print: 'Imprimer',
+  copyLink: 'Copier le lien',
+  linkCopied: 'Lien copié',
+  searchEvents: 'Rechercher des événements',
+  searching: 'Recherche...',
+  noSearchResults: 'Aucun événement trouvé',
+  clearSearch: 'Effacer la recherche',
+  moreEvents: count => `+${count} de plus`,
+  eventCount: count => `${count} événement${count === 1 ? '' : 's'}`,
+  eventsOn: date => `Événements du ${date}`,
+};
+
+const de: CalendarMessages = {
+  calendar: 'Kalender',
+  loading: 'Kalender wird geladen...',
+  loadFailed: 'Kalender konnte nicht geladen werden',
+  today: 'Heute',
+  tomorrow: 'Morgen',
+  yesterday: 'Gestern',
+  agenda: 'Terminübersicht',
+  upcomingEvents: 'Anstehende Termine',
+  noUpcomingEvents: 'Keine anstehenden Termine',
+  loadMore: 'Mehr laden',
+  loadingMore: 'Wird geladen...',
+  allDay: 'Ganztägig',
+  multiDay: 'Mehrtägig',
+  multiDayEvent: 'Mehrtägiger Termin',
+  location: 'Ort',
+  backToYear: '← Jahr',
+  backToMonths: '← Monate',
+  close: 'Schließen',
+  allTab: 'Alle',
+  timeZone: 'Zeitzone',
+  viewerTimeZone: 'Ihre Zeit',
+  calendarTimeZone: 'Kalenderzeit',
+  addToCalendar: 'Zum Kalender hinzufügen',
+  googleCalendar: 'Google',
+  outlookCalendar: 'Outlook.com',
+  downloadIcs: 'Apple / .ics',
+  subscribe: 'Abonnieren',
+  print: 'Drucken',
+  copyLink: 'Link kopieren',
+  linkCopied: 'Link kopiert',
+  searchEvents: 'Termine durchsuchen',
+  searching: 'Suche läuft...',
+  noSearchResults: 'Keine passenden Termine',
+  clearSearch: 'Suche löschen',
+  moreEvents: count => `+${count} weitere`,
+  eventCount: count => `${count} ${count === 1 ? 'Termin' : 'Termine'}`,
+  eventsOn: date => `Termine am ${date}`,
+};
+
+const es: CalendarMessages = {
+  calendar: 'Calendario',
+  loading: 'Cargando calendario...',
+  loadFailed: 'No se pudo cargar el calendario',
+  today: 'Hoy',
+  tomorrow: 'Mañana',
+  yesterday: 'Ayer',
+  agenda: 'Agenda',
+  upcomingEvents: 'Próximos eventos',
+  noUpcomingEvents: 'No hay próximos eventos',
+  loadMore: 'Cargar más',
+  loadingMore: 'Cargando...',
+  allDay: 'Todo el día',
+  multiDay: 'Varios días',
+  multiDayEvent: 'Evento de varios días',
+  location: 'Ubicación',
+  backToYear: '← Año',
+  backToMonths: '← Meses',
+  close: 'Cerrar',
+  allTab: 'Todos',
+  timeZone: 'Zona horaria',
+  viewerTimeZone: 'Tu hora',
+  calendarTimeZone: 'Hora del calendario',
+  addToCalendar: 'Añadir al calendario',
+  googleCalendar: 'Google',
+  outlookCalendar: 'Outlook.com',
+  downloadIcs: 'Apple / .ics',
+  subscribe: 'Suscribirse',
+  print: 'Imprimir',
+  copyLink: 'Copiar enlace',
+  linkCopied: 'Enlace copiado',
+  searchEvents: 'Buscar eventos',
+  searching: 'Buscando...',
+  noSearchResults: 'No hay eventos que coincidan',
+  clearSearch: 'Borrar búsqueda',
+  moreEvents: count => `+${count} más`,
+  eventCount: count => `${count} evento${count === 1 ? '' : 's'}`,
+  eventsOn: date => `Eventos del ${date}`,
+};
+
+// Message catalogs by language subtag; anything else falls back to English
+export const MESSAGES: Record<string, CalendarMessages> = { en, fr, de, es };
+
+// Locales offered in the editor
+export const LOCALES: Array<{ value: string; label: string }> = [
+  { value: 'en-US', label: 'English (US)' },
+  { value: 'en-GB', label: 'English (UK)' },
+  { value: 'fr-FR', label: 'Français (France)' },
+  { value: 'fr-CA', label: 'Français (Canada)' },
+  { value: 'de-DE', label: 'Deutsch (Deutschland)' },
+  { value: 'de-CH', label: 'Deutsch (Schweiz)' },
+  { value: 'es-ES', label: 'Español (España)' },
+  { value: 'es-MX', label: 'Español (México)' },
+];
+
+// Locale settings and strings the calendar components format with
+export interface CalendarI18n {
+  locale: string;
+  hour12: boolean;
+  weekStartsOn: number;      // 0 = Sunday, 1 = Monday, ...
+  messages: CalendarMessages;
+}
+
+export function getCalendarI18n({
+  locale,
+  hour12,
+  weekStartsOn,
+}: Pick<CalendarConfig, 'locale' | 'hour12' | 'weekStartsOn'>): CalendarI18n {
+  // Intl throws on malformed tags, so fall back rather than break the embed
+  let resolved = 'en-US';
+  try {
+    resolved = new Intl.DateTimeFormat(locale || undefined).resolvedOptions().locale;
+  } catch {
+    // Keep the default
+  }
+
+  const language = resolved.split('-')[0].toLowerCase();
+
+  return {
+    locale: resolved,
+    hour12,
+    weekStartsOn: ((Math.floor(weekStartsOn) % 7) + 7) % 7 || 0,
+    messages: MESSAGES[language] ?? en,
+  };
+}
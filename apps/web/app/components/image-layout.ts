@@ -0,0 +1,247 @@
+// The calendar drawn as a standalone SVG, for /api/calendar/image. Email
+// clients and signage screens can't run the embed, so this mirrors its look
+// with the embed's colors, font, corner radius and event colors, as static
+// shapes and text. Text can't be measured without the fonts, so it is
+// truncated from an estimated character width instead.
+
+import { CalendarEvent } from '../api/calendar/route';
+import { normalizeColor } from '../lib/colors';
+import { CalendarConfig, CalendarSourceConfig } from '../types';
+import {
+  eventSpansDay,
+  eventStartsOnDay,
+  formatAgendaDay,
+  formatTime,
+  getDayNames,
+  getEventEndDate,
+  getEventStartDate,
+  getMonthName,
+  getMonthWeeks,
+  isSameDay,
+  resolveEventColors,
+} from './calendar-utils';
+import { CalendarI18n } from './i18n';
+
+export interface ImageOptions {
+  title: string;
+  layout: 'month' | 'list';        // Month grid, or the upcoming events by day
+  month: Date;                     // Any day of the month the grid shows
+  today: Date;                     // Wall-clock now, in the zone events are in
+  width: number;                   // In px; the height follows from the content
+  config: CalendarConfig;
+  sources: CalendarSourceConfig[];
+  i18n: CalendarI18n;
+  subtitle?: string;               // e.g. the time zone times are in
+}
+
+interface Theme {
+  background: string;
+  text: string;
+  border: string;
+  accent: string;
+  font: string;
+}
+
+interface Drawing {
+  body: string;
+  height: number;
+}
+
+const PADDING = 24;
+const HEADER_HEIGHT = 64;
+const WEEKDAY_HEIGHT = 28;
+const EVENT_HEIGHT = 18;
+const EVENT_GAP = 2;
+const DAY_HEADING_HEIGHT = 32;
+const LIST_EVENT_HEIGHT = 46;
+// Fonts servers commonly have, ahead of the generic family, for when the
+// configured ones aren't installed. DejaVu is what the Docker image ships.
+const FALLBACK_FONTS = "'DejaVu Sans', Arial, Helvetica, sans-serif";
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// fill or stroke attributes for a CSS color. rgba() is split into rgb and an
+// opacity, which every SVG renderer understands.
+function paint(attribute: 'fill' | 'stroke', color: string, opacity = 1): string {
+  const rgba = color.match(/^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*(?:,\s*([\d.]+)\s*)?\)$/);
+  const alpha = opacity * (rgba?.[4] !== undefined ? Number(rgba[4]) : 1);
+  const value = rgba ? `rgb(${rgba[1]}, ${rgba[2]}, ${rgba[3]})` : normalizeColor(color) ?? '#000000';
+  return alpha < 1 ? `${attribute}="${value}" ${attribute}-opacity="${alpha}"` : `${attribute}="${value}"`;
+}
+
+// Cut text to about maxWidth px at fontSize, ending in an ellipsis
+function fitText(text: string, maxWidth: number, fontSize: number, bold = false): string {
+  const charWidth = fontSize * (bold ? 0.65 : 0.6);
+  const chars = Math.floor(maxWidth / charWidth);
+  if (text.length <= chars) return text;
+  return chars > 1 ? `${text.slice(0, chars - 1).trimEnd()}…` : '';
+}
+
+function text(x: number, y: number, content: string, attributes: string): string {
+  return `<text x="${x}" y="${y}" ${attributes}>${escapeXml(content)}</text>`;
+}
+
+// Events on a day, all-day ones first, then by start time
+function eventsOnDay(events: CalendarEvent[], day: Date): CalendarEvent[] {
+  return events
+    .filter(event => eventSpansDay(event, day))
+    .sort((a, b) => Number(b.allDay) - Number(a.allDay) || getEventStartDate(a).getTime() - getEventStartDate(b).getTime());
+}
+
+function formatEventTime(event: CalendarEvent, day: Date, i18n: CalendarI18n): string {
+  if (event.allDay) return i18n.messages.allDay;
+  if (!eventStartsOnDay(event, day)) return '←';
+
+  const start = formatTime(event.start.dateTime!, i18n);
+  const end = event.end?.dateTime && isSameDay(getEventEndDate(event), day)
+    ? formatTime(event.end.dateTime, i18n)
+    : null;
+  return end ? `${start} – ${end}` : start;
+}
+
+function drawMonth(events: CalendarEvent[], options: ImageOptions, theme: Theme, top: number): Drawing {
+  const { config, i18n, today } = options;
+  const rows = Math.max(config.maxEventRows, 1);
+  const cellWidth = (options.width - PADDING * 2) / 7;
+  const cellHeight = 28 + rows * (EVENT_HEIGHT + EVENT_GAP) + 16;
+  const weeks = getMonthWeeks(options.month.getFullYear(), options.month.getMonth(), i18n.weekStartsOn);
+  const parts: string[] = [];
+
+  getDayNames(i18n.locale, i18n.weekStartsOn).forEach((name, idx) => {
+    const x = PADDING + idx * cellWidth + cellWidth / 2;
+    parts.push(text(x, top + 18, fitText(name, cellWidth - 4, 11, true), `text-anchor="middle" font-size="11" font-weight="600" ${paint('fill', theme.text, 0.5)}`));
+  });
+  const gridTop = top + WEEKDAY_HEIGHT;
+
+  weeks.forEach((week, row) => {
+    week.forEach((cell, column) => {
+      const x = PADDING + column * cellWidth;
+      const y = gridTop + row * cellHeight;
+      const isToday = !!cell.date && isSameDay(cell.date, today);
+      const fill = !cell.date ? paint('fill', theme.text, 0.03)
+        : isToday ? paint('fill', theme.accent, 0.06)
+        : 'fill="none"';
+      parts.push(`<rect x="${x}" y="${y}" width="${cellWidth}" height="${cellHeight}" ${fill} ${paint('stroke', theme.border)} stroke-width="1"/>`);
+      if (!cell.date) return;
+
+      if (isToday) {
+        parts.push(`<circle cx="${x + 16}" cy="${y + 14}" r="10" ${paint('fill', theme.accent)}/>`);
+      }
+      parts.push(text(x + 16, y + 18, String(cell.day), `text-anchor="middle" font-size="11" font-weight="600" ${paint('fill', isToday ? '#ffffff' : theme.text)}`));
+
+      const dayEvents = eventsOnDay(events, cell.date);
+      const hiddenCount = dayEvents.length > rows ? dayEvents.length - rows + 1 : 0;
+      const shown = hiddenCount > 0 ? dayEvents.slice(0, rows - 1) : dayEvents;
+
+      shown.forEach((event, idx) => {
+        const colors = resolveEventColors(event, config, options.sources);
+        const eventY = y + 28 + idx * (EVENT_HEIGHT + EVENT_GAP);
+        const time = event.allDay || !eventStartsOnDay(event, cell.date!) ? '' : `${formatTime(event.start.dateTime!, i18n)} `;
+        parts.push(
+          `<rect x="${x + 3}" y="${eventY}" width="${cellWidth - 6}" height="${EVENT_HEIGHT}" rx="3" ${paint('fill', colors.backgroundColor)}/>`,
+          `<rect x="${x + 3}" y="${eventY}" width="3" height="${EVENT_HEIGHT}" ${paint('fill', colors.borderColor)}/>`,
+          text(x + 10, eventY + 13, fitText(`${time}${event.title}`, cellWidth - 16, 11), `font-size="11" ${paint('fill', colors.color)}`)
+        );
+      });
+      if (hiddenCount > 0) {
+        const moreY = y + 28 + shown.length * (EVENT_HEIGHT + EVENT_GAP) + 13;
+        parts.push(text(x + 6, moreY, fitText(i18n.messages.moreEvents(hiddenCount), cellWidth - 10, 10), `font-size="10" ${paint('fill', theme.text, 0.7)}`));
+      }
+    });
+  });
+
+  return { body: parts.join('\n'), height: WEEKDAY_HEIGHT + weeks.length * cellHeight };
+}
+
+function drawList(events: CalendarEvent[], options: ImageOptions, theme: Theme, top: number): Drawing {
+  const { config, i18n, today } = options;
+  const startOfToday = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  const innerWidth = options.width - PADDING * 2;
+  const parts: string[] = [];
+
+  const upcoming = events
+    .filter(event => getEventEndDate(event) >= startOfToday)
+    .sort((a, b) => getEventStartDate(a).getTime() - getEventStartDate(b).getTime())
+    .slice(0, Math.max(config.agendaMaxEvents, 1));
+
+  if (upcoming.length === 0) {
+    parts.push(text(PADDING, top + 20, i18n.messages.noUpcomingEvents, `font-size="14" ${paint('fill', theme.text, 0.7)}`));
+    return { body: parts.join('\n'), height: 32 };
+  }
+
+  let y = top;
+  let lastDay: Date | null = null;
+  for (const event of upcoming) {
+    const start = getEventStartDate(event);
+    const day = start < startOfToday ? startOfToday : new Date(start.getFullYear(), start.getMonth(), start.getDate());
+
+    if (!lastDay || !isSameDay(lastDay, day)) {
+      if (lastDay) y += 8;
+      parts.push(
+        text(PADDING, y + 20, fitText(formatAgendaDay(day, startOfToday, i18n).toUpperCase(), innerWidth, 12, true), `font-size="12" font-weight="600" letter-spacing="0.5" ${paint('fill', theme.text, 0.6)}`),
+        `<rect x="${PADDING}" y="${y + DAY_HEADING_HEIGHT - 4}" width="${innerWidth}" height="1" ${paint('fill', theme.border)}/>`
+      );
+      y += DAY_HEADING_HEIGHT;
+      lastDay = day;
+    }
+
+    const colors = resolveEventColors(event, config, options.sources);
+    const details = [formatEventTime(event, day, i18n), event.location].filter(Boolean).join(' · ');
+    parts.push(
+      `<rect x="${PADDING}" y="${y + 4}" width="${innerWidth}" height="${LIST_EVENT_HEIGHT - 8}" rx="4" ${paint('fill', colors.backgroundColor)}/>`,
+      `<rect x="${PADDING}" y="${y + 4}" width="4" height="${LIST_EVENT_HEIGHT - 8}" ${paint('fill', colors.borderColor)}/>`,
+      text(PADDING + 14, y + 20, fitText(event.title, innerWidth - 24, 14, true), `font-size="14" font-weight="600" ${paint('fill', colors.color)}`),
+      text(PADDING + 14, y + 36, fitText(details, innerWidth - 24, 12), `font-size="12" ${paint('fill', colors.color, 0.8)}`)
+    );
+    y += LIST_EVENT_HEIGHT;
+  }
+
+  return { body: parts.join('\n'), height: y - top };
+}
+
+// A complete SVG document. `events` must already be in the zone the
+// calendar is shown in, as wall-clock times.
+export function renderCalendarImage(events: CalendarEvent[], options: ImageOptions): string {
+  const { config, i18n, width } = options;
+  const isDark = config.theme === 'dark';
+  const theme: Theme = {
+    background: config.backgroundColor || (isDark ? '#0a0a0a' : '#ffffff'),
+    text: config.textColor || (isDark ? '#ededed' : '#1a1a1a'),
+    border: config.borderColor || (isDark ? '#27272a' : '#e4e4e7'),
+    accent: config.accentColor || '#3b82f6',
+    font: config.fontFamily ? `${config.fontFamily.replace(/,\s*sans-serif\s*$/i, '')}, ${FALLBACK_FONTS}` : FALLBACK_FONTS,
+  };
+
+  const heading = options.layout === 'month'
+    ? `${getMonthName(options.month.getMonth(), i18n.locale)} ${options.month.getFullYear()}`
+    : null;
+  const subtitle = [heading, options.subtitle].filter(Boolean).join(' · ');
+  const content = options.layout === 'month'
+    ? drawMonth(events, options, theme, PADDING + HEADER_HEIGHT)
+    : drawList(events, options, theme, PADDING + HEADER_HEIGHT);
+  const height = Math.ceil(PADDING + HEADER_HEIGHT + content.height + PADDING);
+
+  const radius = Math.max(config.borderRadius, 0);
+  const stroke = Math.max(config.borderWidth, 0);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${escapeXml(theme.font)}">
+<title>${escapeXml(options.title)}</title>
+<defs><clipPath id="frame"><rect width="${width}" height="${height}" rx="${radius}"/></clipPath></defs>
+<g clip-path="url(#frame)">
+<rect width="${width}" height="${height}" ${paint('fill', theme.background)}/>
+<rect width="${width}" height="4" ${paint('fill', theme.accent)}/>
+${text(PADDING, PADDING + 22, fitText(options.title, width - PADDING * 2, 20, true), `font-size="20" font-weight="700" ${paint('fill', theme.text)}`)}
+${subtitle ? text(PADDING, PADDING + 44, fitText(subtitle, width - PADDING * 2, 13), `font-size="13" ${paint('fill', theme.text, 0.7)}`) : ''}
+${content.body}
+</g>
+${stroke > 0 ? `<rect x="${stroke / 2}" y="${stroke / 2}" width="${width - stroke}" height="${height - stroke}" rx="${Math.max(radius - stroke / 2, 0)}" fill="none" ${paint('stroke', theme.border)} stroke-width="${stroke}"/>` : ''}
+</svg>
+`;
+}
@@ -0,0 +1,180 @@
+// Standalone printable HTML for a date range, used by the embed's print
+// button and by /api/calendar/print. Plain markup with print CSS: no
+// scripts or animations, weeks and days kept whole across page breaks, and
+// event colors only as borders so schedules read well in black and white.
+
+import { CalendarEvent } from '../api/calendar/route';
+import {
+  eventSpansDay,
+  eventStartsOnDay,
+  formatTime,
+  getDayNames,
+  getEventEndDate,
+  getEventStartDate,
+  getMonthName,
+  getMonthWeeks,
+  isSameDay,
+} from './calendar-utils';
+import { CalendarI18n } from './i18n';
+
+export interface PrintOptions {
+  title: string;
+  start: Date;                     // First day printed
+  end: Date;                       // Last day printed, inclusive
+  layout: 'month' | 'list';        // Month grids, or a day-by-day list
+  i18n: CalendarI18n;
+  subtitle?: string;               // e.g. the time zone times are in
+  eventColor?: (event: CalendarEvent) => string;
+}
+
+const PRINT_STYLES = `
+  @page { margin: 12mm; }
+  * { box-sizing: border-box; }
+  body { margin: 0; font: 10pt/1.35 system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif; color: #000; background: #fff; }
+  header { margin-bottom: 8mm; }
+  h1 { margin: 0; font-size: 16pt; }
+  header p { margin: 2pt 0 0; color: #444; }
+  h2 { margin: 0 0 4mm; font-size: 13pt; }
+  section + section { break-before: page; }
+  table { width: 100%; border-collapse: collapse; table-layout: fixed; }
+  thead { display: table-header-group; }
+  th { padding: 2pt 4pt; border: 1px solid #000; font-size: 9pt; text-align: left; }
+  tr { break-inside: avoid; }
+  td { height: 24mm; padding: 2pt 3pt; border: 1px solid #000; vertical-align: top; }
+  td.outside { background: #f2f2f2; }
+  .day-number { font-weight: 600; }
+  .event { margin-top: 1.5pt; padding-left: 3pt; border-left: 2.5pt solid #000; font-size: 8pt; overflow-wrap: anywhere; }
+  .event.all-day { padding: 0 3pt; border: 1px solid #000; border-left-width: 2.5pt; }
+  .time { font-weight: 600; }
+  .day { break-inside: avoid; margin-bottom: 4mm; }
+  .day h3 { margin: 0 0 1.5mm; padding-bottom: 1mm; border-bottom: 1px solid #000; font-size: 10.5pt; }
+  .day .event { display: flex; gap: 4mm; margin-top: 1.5mm; font-size: 9.5pt; }
+  .day .time { flex: 0 0 30mm; }
+  .location { display: block; color: #444; }
+  .empty { color: #444; font-style: italic; }
+`;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function eventStyle(event: CalendarEvent, options: PrintOptions): string {
+  const color = options.eventColor?.(event);
+  return color ? ` style="border-left-color: ${escapeHtml(color)}"` : '';
+}
+
+// Events on a day, all-day ones first, then by start time
+function eventsOnDay(events: CalendarEvent[], day: Date): CalendarEvent[] {
+  return events
+    .filter(event => eventSpansDay(event, day))
+    .sort((a, b) => Number(b.allDay) - Number(a.allDay) || getEventStartDate(a).getTime() - getEventStartDate(b).getTime());
+}
+
+function formatEventTime(event: CalendarEvent, day: Date, i18n: CalendarI18n): string {
+  if (event.allDay) return i18n.messages.allDay;
+  if (!eventStartsOnDay(event, day)) return '←';
+
+  const start = formatTime(event.start.dateTime!, i18n);
+  const end = event.end?.dateTime && isSameDay(getEventEndDate(event), day)
+    ? formatTime(event.end.dateTime, i18n)
+    : null;
+  return end ? `${start} – ${end}` : start;
+}
+
+function renderMonths(events: CalendarEvent[], options: PrintOptions): string {
+  const { i18n } = options;
+  const first = startOfDay(options.start);
+  const last = startOfDay(options.end);
+  const dayNames = getDayNames(i18n.locale, i18n.weekStartsOn);
+  const sections: string[] = [];
+
+  for (let month = new Date(first.getFullYear(), first.getMonth(), 1); month <= last; month.setMonth(month.getMonth() + 1)) {
+    const weeks = getMonthWeeks(month.getFullYear(), month.getMonth(), i18n.weekStartsOn);
+
+    const rows = weeks.map(week => {
+      const cells = week.map(cell => {
+        if (!cell.date || cell.date < first || cell.date > last) {
+          return `<td class="outside">${cell.day ?? ''}</td>`;
+        }
+
+        const items = eventsOnDay(events, cell.date).map(event => {
+          const time = event.allDay ? '' : `<span class="time">${escapeHtml(formatEventTime(event, cell.date!, i18n))}</span> `;
+          return `<div class="event${event.allDay ? ' all-day' : ''}"${eventStyle(event, options)}>${time}${escapeHtml(event.title)}</div>`;
+        });
+        return `<td><div class="day-number">${cell.day}</div>${items.join('')}</td>`;
+      });
+      return `<tr>${cells.join('')}</tr>`;
+    });
+
+    sections.push(`<section>
+<h2>${escapeHtml(`${getMonthName(month.getMonth(), i18n.locale)} ${month.getFullYear()}`)}</h2>
+<table>
+<thead><tr>${dayNames.map(name => `<th>${escapeHtml(name)}</th>`).join('')}</tr></thead>
+<tbody>
+${rows.join('\n')}
+</tbody>
+</table>
+</section>`);
+  }
+
+  return sections.join('\n');
+}
+
+function renderList(events: CalendarEvent[], options: PrintOptions): string {
+  const { i18n } = options;
+  const last = startOfDay(options.end);
+  const days: string[] = [];
+
+  for (let day = startOfDay(options.start); day <= last; day = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1)) {
+    const dayEvents = eventsOnDay(events, day);
+    if (dayEvents.length === 0) continue;
+
+    const heading = day.toLocaleDateString(i18n.locale, { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' });
+    const items = dayEvents.map(event => {
+      const location = event.location ? `<span class="location">${escapeHtml(event.location)}</span>` : '';
+      return `<div class="event${event.allDay ? ' all-day' : ''}"${eventStyle(event, options)}>
+<span class="time">${escapeHtml(formatEventTime(event, day, i18n))}</span>
+<span><strong>${escapeHtml(event.title)}</strong>${location}</span>
+</div>`;
+    });
+    days.push(`<div class="day">\n<h3>${escapeHtml(heading)}</h3>\n${items.join('\n')}\n</div>`);
+  }
+
+  return days.length > 0
+    ? `<section>\n${days.join('\n')}\n</section>`
+    : `<p class="empty">${escapeHtml(i18n.messages.noUpcomingEvents)}</p>`;
+}
+
+// A complete HTML document for the range. `events` must already be in the
+// zone the schedule is printed in, as wall-clock times.
+export function renderPrintableCalendar(events: CalendarEvent[], options: PrintOptions): string {
+  const { i18n } = options;
+  const range = `${options.start.toLocaleDateString(i18n.locale, { dateStyle: 'long' })} – ${options.end.toLocaleDateString(i18n.locale, { dateStyle: 'long' })}`;
+  const subtitle = options.subtitle ? `${range} · ${options.subtitle}` : range;
+  const body = options.layout === 'month' ? renderMonths(events, options) : renderList(events, options);
+
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(i18n.locale)}">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(options.title)}</title>
+<style>${PRINT_STYLES}</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(options.title)}</h1>
+<p>${escapeHtml(subtitle)}</p>
+</header>
+${body}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { embedScript } from '../lib/embed-script';
+import { requestOrigin } from '../lib/oembed';
+
+// The <simply-calendar> loader. It only changes with deploys, so browsers
+// can hold on to it for a while. Its fallback origin is worked out like
+// oEmbed's, so both agree behind a proxy.
+export async function GET() {
+  const origin = await requestOrigin();
+  if (!origin) {
+    return NextResponse.json({ error: 'Invalid host' }, { status: 400 });
+  }
+
+  return new NextResponse(embedScript(origin), {
+    headers: {
+      'Content-Type': 'text/javascript; charset=utf-8',
+      'Cache-Control': 'public, max-age=3600',
+    },
+  });
+}
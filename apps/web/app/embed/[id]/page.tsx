@@ -0,0 +1,29 @@
+import type { Metadata } from 'next';
+import { Suspense } from 'react';
+import { notFound } from 'next/navigation';
+import CalendarEmbed from '../calendar-embed';
+import { getEmbed } from '../../lib/embeds';
+import { oembedMetadata } from '../../lib/oembed';
+
+// Saved embeds can change at any time, so always read the latest config
+export const dynamic = 'force-dynamic';
+
+export async function generateMetadata({ params }: { params: Promise<{ id: string }> }): Promise<Metadata> {
+  const { id } = await params;
+  return oembedMetadata(`/embed/${encodeURIComponent(id)}`);
+}
+
+export default async function SavedEmbedPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const embed = await getEmbed(id);
+
+  if (!embed) {
+    notFound();
+  }
+
+  return (
+    <Suspense fallback={<div className="w-full h-full flex items-center justify-center">Loading...</div>}>
+      <CalendarEmbed config={embed.config} saved />
+    </Suspense>
+  );
+}
@@ -0,0 +1,40 @@
+import { eventInTimeZone, formatTimeZone, serverDisplayTimeZone, toZonedTime } from '../components/calendar-utils';
+import EventList from '../components/EventList';
+import { getCalendarI18n } from '../components/i18n';
+import { loadEmbedCalendarData } from '../lib/calendars';
+import { CalendarConfig } from '../types';
+import EmbedContent from './embed-content';
+
+interface CalendarEmbedProps {
+  config: CalendarConfig;
+  // Saved embeds hand their config down; URL embeds read it from the URL
+  saved?: boolean;
+}
+
+// Loads the calendar on the server so the embed's HTML arrives with the
+// events in it, ready to hydrate. Without JavaScript the interactive
+// calendar is hidden and a plain list of the events shows instead.
+export default async function CalendarEmbed({ config, saved }: CalendarEmbedProps) {
+  const data = await loadEmbedCalendarData(config);
+  const i18n = getCalendarI18n(config);
+  const timeZone = serverDisplayTimeZone(config.displayTimeZone, data?.timeZone);
+  const now = new Date();
+
+  return (
+    <>
+      <EmbedContent savedConfig={saved ? config : undefined} initialData={data} serverNow={now.getTime()} />
+      {data && (
+        <noscript>
+          <style>{'.embed-container { display: none !important; } html, body { overflow: auto !important; }'}</style>
+          <EventList
+            title={data.summary || i18n.messages.calendar}
+            events={data.events.map(event => eventInTimeZone(event, timeZone))}
+            today={toZonedTime(now, timeZone)}
+            i18n={i18n}
+            subtitle={formatTimeZone(timeZone, i18n.locale)}
+          />
+        </noscript>
+      )}
+    </>
+  );
+}
@@ -1,97 +1,56 @@
 'use client';
 
 import { useSearchParams } from 'next/navigation';
-import { useEffect, useState, useRef, useMemo, useCallback } from 'react';
-import { CalendarConfig, defaultConfig, queryStringToConfig, extractCalendarId } from '../types';
+import { useRef, useMemo } from 'react';
+import { AnimatePresence } from 'motion/react';
+import { CalendarData } from '../api/calendar/route';
+import { CalendarConfig, defaultConfig, queryStringToConfig } from '../types';
 import CustomCalendar from '../components/CustomCalendar';
-import { CalendarEvent } from '../api/calendar/route';
+import { useCalendarData } from '../hooks/useCalendarData';
+import { useEmbedMessages } from '../hooks/useEmbedMessages';
+import { useHydrated } from '../hooks/useHydrated';
+
+interface EmbedContentProps {
+  // Config of a saved embed (/embed/[id]); otherwise it's read from the URL params
+  savedConfig?: CalendarConfig;
+  // Events loaded while the page was rendered on the server
+  initialData?: CalendarData | null;
+  // When that render happened, so the calendar hydrates on the same day
+  serverNow?: number;
+}
 
-export default function EmbedContent() {
+export default function EmbedContent({ savedConfig, initialData, serverNow }: EmbedContentProps) {
   const searchParams = useSearchParams();
   
   // Parse config from URL params (memoized to avoid unnecessary recalculations)
   const config = useMemo<CalendarConfig>(() => {
+    if (savedConfig) return savedConfig;
     const parsedConfig = queryStringToConfig(searchParams);
     return { ...defaultConfig, ...parsedConfig };
-  }, [searchParams]);
+  }, [savedConfig, searchParams]);
   
   const containerRef = useRef<HTMLDivElement>(null);
   
   // Calendar data state
-  const [events, setEvents] = useState<CalendarEvent[]>([]);
-  const [calendarName, setCalendarName] = useState<string>('');
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  // Fetch calendar data
-  const fetchCalendarData = useCallback(async () => {
-    const calendarId = extractCalendarId(config.calendarUrl);
-    if (!calendarId) {
-      setError('Invalid calendar URL or ID');
-      setLoading(false);
-      return;
-    }
-
-    setLoading(true);
-    setError(null);
-
-    try {
-      // Set time range based on showPastEvents
-      const timeMin = config.showPastEvents 
-        ? new Date(Date.now() - 365 * 24 * 60 * 60 * 1000).toISOString() // 1 year ago
-        : new Date().toISOString(); // Now
-      
-      const response = await fetch(`/api/calendar?calendarId=${encodeURIComponent(calendarId)}&timeMin=${encodeURIComponent(timeMin)}`);
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to fetch calendar');
-      }
-
-      setEvents(data.events || []);
-      setCalendarName(data.summary || 'Calendar');
-      setError(null);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to load calendar');
-      setEvents([]);
-    } finally {
-      setLoading(false);
-    }
-  }, [config.calendarUrl, config.showPastEvents]);
-
-  // Fetch on mount
-  useEffect(() => {
-    if (config.calendarUrl) {
-      fetchCalendarData();
-    } else {
-      setLoading(false);
-      setError('No calendar URL provided');
-    }
-  }, [config.calendarUrl, fetchCalendarData]);
-
-  // Auto-resize functionality for Squarespace and responsive mode
-  useEffect(() => {
-    if (!config.responsive && !config.squarespaceMode) return;
-
-    // Send message to parent for iframe resizing
-    const sendHeightToParent = () => {
-      if (containerRef.current) {
-        const height = containerRef.current.scrollHeight;
-        window.parent.postMessage({ type: 'resize', height }, '*');
-      }
-    };
-
-    const interval = setInterval(sendHeightToParent, 1000);
-    sendHeightToParent();
-
-    return () => {
-      clearInterval(interval);
-    };
-  }, [config.responsive, config.squarespaceMode]);
+  const {
+    events,
+    calendarName,
+    timeZone,
+    calendars,
+    loading,
+    error,
+    loadMore,
+    loadingMore,
+    hasMore,
+  } = useCalendarData(config, { missingUrlError: 'No calendar URL provided', initialData });
+  const hydrated = useHydrated();
+
+  // Commands from the host page, and events and size changes for it
+  useEmbedMessages(config, { events, loading, error, containerRef });
 
   // Determine background color
   const isDark = config.theme === 'dark' || 
-    (config.theme === 'auto' && typeof window !== 'undefined' && window.matchMedia('(prefers-color-scheme: dark)').matches);
+    (config.theme === 'auto' && hydrated && window.matchMedia('(prefers-color-scheme: dark)').matches);
   
   const bgColor = config.backgroundColor || (isDark ? '#0a0a0a' : '#ffffff');
 
@@ -106,13 +65,22 @@ export default function EmbedContent() {
         padding: config.squarespaceMode ? `${config.containerPadding}px` : 0,
       }}
     >
-      <CustomCalendar
-        events={events}
-        config={config}
-        calendarName={calendarName}
-        loading={loading}
-        error={error}
-      />
+      {/* Server-rendered HTML shows as it is, rather than fading in again */}
+      <AnimatePresence initial={hydrated}>
+        <CustomCalendar
+          events={events}
+          config={config}
+          calendarName={calendarName}
+          calendarTimeZone={timeZone}
+          calendars={calendars}
+          loading={loading}
+          error={error}
+          onLoadMore={loadMore}
+          loadingMore={loadingMore}
+          hasMore={hasMore}
+          serverNow={serverNow}
+        />
+      </AnimatePresence>
 
       {/* Inject custom styles for theme */}
       <style jsx global>{`
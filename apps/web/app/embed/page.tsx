@@ -1,10 +1,30 @@
+import type { Metadata } from 'next';
 import { Suspense } from 'react';
-import EmbedContent from './embed-content';
+import CalendarEmbed from './calendar-embed';
+import { oembedMetadata } from '../lib/oembed';
+import { CalendarConfig, defaultConfig, queryStringToConfig } from '../types';
+
+type EmbedSearchParams = Promise<Record<string, string | string[] | undefined>>;
+
+async function readSearchParams(searchParams: EmbedSearchParams): Promise<URLSearchParams> {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(await searchParams)) {
+    if (typeof value === 'string') params.set(key, value);
+  }
+  return params;
+}
+
+export async function generateMetadata({ searchParams }: { searchParams: EmbedSearchParams }): Promise<Metadata> {
+  return oembedMetadata(`/embed?${await readSearchParams(searchParams)}`);
+}
+
+export default async function EmbedPage({ searchParams }: { searchParams: EmbedSearchParams }) {
+  const params = await readSearchParams(searchParams);
+  const config: CalendarConfig = { ...defaultConfig, ...queryStringToConfig(params) };
 
-export default function EmbedPage() {
   return (
     <Suspense fallback={<div className="w-full h-full flex items-center justify-center">Loading...</div>}>
-      <EmbedContent />
+      <CalendarEmbed config={config} />
     </Suspense>
   );
 }
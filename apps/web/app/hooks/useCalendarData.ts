@@ -0,0 +1,158 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { CalendarData, CalendarEvent, CalendarSourceInfo } from '../api/calendar/route';
+import { CalendarConfig, calendarApiQuery, calendarTimeRange } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// "Load more" keeps requesting windows until it finds events or has looked this far
+const MAX_LOAD_MORE_DAYS = 365;
+
+interface UseCalendarDataOptions {
+  debounce?: number;              // ms to wait after the calendar URL changes
+  missingUrlError?: string;       // Error shown when no calendar URL is set
+  initialData?: CalendarData | null;   // First load, done on the server; skips the first fetch
+}
+
+// Fetches the configured calendars from /api/calendar, and further windows
+// of events on demand for the agenda's "load more"
+export function useCalendarData(config: CalendarConfig, { debounce = 0, missingUrlError, initialData }: UseCalendarDataOptions = {}) {
+  // Query string selecting the calendars to fetch
+  const calendarQuery = useMemo(() => calendarApiQuery(config).toString(), [config]);
+
+  const [events, setEvents] = useState<CalendarEvent[]>(() => initialData?.events ?? []);
+  const [calendarName, setCalendarName] = useState<string>(() => (initialData ? initialData.summary || 'Calendar' : ''));
+  const [timeZone, setTimeZone] = useState<string>(() => initialData?.timeZone ?? '');
+  const [calendars, setCalendars] = useState<CalendarSourceInfo[]>(() => initialData?.calendars ?? []);
+  const [loading, setLoading] = useState(() => !initialData && Boolean(config.calendarUrl));
+  const [error, setError] = useState<string | null>(null);
+
+  // End of the time range loaded so far, for "load more". The server loaded
+  // the same range the first fetch would have.
+  const [loadedUntil, setLoadedUntil] = useState<number | null>(() =>
+    initialData ? new Date(calendarTimeRange(config).timeMax).getTime() : null
+  );
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(() => !!initialData && config.viewMode === 'agenda');
+  const skipFirstFetch = useRef(!!initialData);
+
+  const requestEvents = useCallback(async (timeMin: string, timeMax: string): Promise<CalendarData> => {
+    const response = await fetch(
+      `/api/calendar?${calendarQuery}&timeMin=${encodeURIComponent(timeMin)}&timeMax=${encodeURIComponent(timeMax)}`
+    );
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to fetch calendar');
+    }
+
+    return data;
+  }, [calendarQuery]);
+
+  const fetchCalendarData = useCallback(async () => {
+    if (!calendarQuery) {
+      setError('Invalid calendar URL or ID');
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      // Set time range based on the view and its options
+      const { timeMin, timeMax } = calendarTimeRange({
+        viewMode: config.viewMode,
+        showPastEvents: config.showPastEvents,
+        agendaDaysBehind: config.agendaDaysBehind,
+        agendaDaysAhead: config.agendaDaysAhead,
+      });
+
+      const data = await requestEvents(timeMin, timeMax);
+
+      setEvents(data.events || []);
+      setCalendarName(data.summary || 'Calendar');
+      setTimeZone(data.timeZone || '');
+      setCalendars(data.calendars || []);
+      setLoadedUntil(new Date(timeMax).getTime());
+      setHasMore(config.viewMode === 'agenda');
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load calendar');
+      setEvents([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [calendarQuery, requestEvents, config.viewMode, config.showPastEvents, config.agendaDaysBehind, config.agendaDaysAhead]);
+
+  // Load the next window(s) of events after the ones already loaded
+  const loadMore = useCallback(async () => {
+    if (loadingMore || loadedUntil === null) return;
+
+    setLoadingMore(true);
+
+    try {
+      const windowMs = Math.max(config.agendaDaysAhead, 7) * DAY_MS;
+      let from = loadedUntil;
+      let found: CalendarEvent[] = [];
+
+      while (found.length === 0 && from - loadedUntil < MAX_LOAD_MORE_DAYS * DAY_MS) {
+        const data = await requestEvents(new Date(from).toISOString(), new Date(from + windowMs).toISOString());
+        found = data.events || [];
+        from += windowMs;
+      }
+
+      setEvents(prev => {
+        const seen = new Set(prev.map(event => event.id));
+        return [...prev, ...found.filter(event => !seen.has(event.id))];
+      });
+      setLoadedUntil(from);
+      setHasMore(found.length > 0);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load calendar');
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [loadingMore, loadedUntil, requestEvents, config.agendaDaysAhead]);
+
+  // Fetch when the calendar URL or the range changes
+  useEffect(() => {
+    if (skipFirstFetch.current) {
+      skipFirstFetch.current = false;
+      return;
+    }
+
+    if (!config.calendarUrl) {
+      setEvents([]);
+      setCalendarName('');
+      setTimeZone('');
+      setCalendars([]);
+      setLoading(false);
+      setError(missingUrlError ?? null);
+      return;
+    }
+
+    if (!debounce) {
+      fetchCalendarData();
+      return;
+    }
+
+    const timeoutId = setTimeout(() => {
+      fetchCalendarData();
+    }, debounce);
+    return () => clearTimeout(timeoutId);
+  }, [config.calendarUrl, fetchCalendarData, debounce, missingUrlError]);
+
+  return {
+    events,
+    calendarName,
+    timeZone,
+    calendars,
+    loading,
+    error,
+    fetchCalendarData,
+    loadMore,
+    loadingMore,
+    hasMore,
+  };
+}
@@ -0,0 +1,136 @@
+'use client';
+
+import { RefObject, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { CalendarEvent } from '../api/calendar/route';
+import { formatDateKey, getEventStartDate, parseDateKey } from '../components/calendar-utils';
+import { EmbedCommandError, EmbedEvent, embedMessage, isPublicEmbedEvent, parseEmbedCommand, summarizeEvent } from '../lib/embed-protocol';
+import { CalendarConfig, sanitizeOrigins, VIEW_MODES } from '../types';
+import { setHashParams, useHashParam } from './useHashParam';
+
+interface UseEmbedMessagesOptions {
+  events: CalendarEvent[];
+  loading: boolean;
+  error: string | null;
+  containerRef: RefObject<HTMLDivElement | null>;   // Measured for resize messages
+}
+
+// Talks to the page hosting the embed's iframe over the protocol in
+// lib/embed-protocol.ts. The calendar keeps its view, date and open event in
+// the URL hash, so commands write the hash and events report changes to it.
+export function useEmbedMessages(config: CalendarConfig, { events, loading, error, containerRef }: UseEmbedMessagesOptions) {
+  const origins = useMemo(() => sanitizeOrigins(config.allowedOrigins), [config.allowedOrigins]);
+
+  const post = useCallback((message: EmbedEvent) => {
+    if (window.parent === window) return;
+    // Without allowed origins any page may be listening, so only messages
+    // that say nothing about the events go out
+    if (origins.length === 0) {
+      if (isPublicEmbedEvent(message)) window.parent.postMessage(embedMessage(message), '*');
+      return;
+    }
+    // The browser drops messages whose target origin doesn't match the parent
+    for (const origin of origins) {
+      window.parent.postMessage(embedMessage(message), origin);
+    }
+  }, [origins]);
+
+  const [viewParam] = useHashParam('view');
+  const [dateParam] = useHashParam('date');
+  const [eventParam] = useHashParam('event');
+  const [today] = useState(() => formatDateKey(new Date()));
+  const view = VIEW_MODES.find(mode => mode === viewParam) ?? config.viewMode;
+  const date = dateParam && parseDateKey(dateParam) ? dateParam : today;
+
+  // Commands from the host
+  useEffect(() => {
+    const handleMessage = (e: MessageEvent) => {
+      if (window.parent === window || e.source !== window.parent) return;
+      if (origins.length > 0 && !origins.includes(e.origin)) return;
+
+      try {
+        const command = parseEmbedCommand(e.data);
+        if (!command) return;
+
+        switch (command.type) {
+          case 'setView':
+            setHashParams({ view: command.view === config.viewMode ? null : command.view });
+            break;
+          case 'goToDate':
+            if (!parseDateKey(command.date)) throw new EmbedCommandError(`${command.date} isn't a date`, command.type);
+            setHashParams({ date: command.date });
+            break;
+          case 'setFilter':
+            setHashParams({ tab: command.tab });
+            break;
+          case 'openEvent': {
+            const event = events.find(event => event.id === command.id);
+            if (!event) throw new EmbedCommandError(`No loaded event has the id ${command.id}`, command.type);
+            setHashParams({ event: event.id, date: formatDateKey(getEventStartDate(event)) });
+            break;
+          }
+        }
+      } catch (err) {
+        if (!(err instanceof EmbedCommandError)) throw err;
+        post({ type: 'error', message: err.message, command: err.command });
+      }
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [origins, config.viewMode, events, post]);
+
+  // ready once the first events are in, error whenever loading fails
+  const sentReady = useRef(false);
+  useEffect(() => {
+    if (loading || error || sentReady.current) return;
+    sentReady.current = true;
+    post({ type: 'ready', view, date });
+  }, [loading, error, view, date, post]);
+
+  useEffect(() => {
+    if (error) post({ type: 'error', message: error });
+  }, [error, post]);
+
+  // Changes to the view, date and open event after the embed loaded
+  const sentView = useRef(view);
+  useEffect(() => {
+    if (sentView.current === view) return;
+    sentView.current = view;
+    post({ type: 'viewChange', view, url: window.location.href });
+  }, [view, post]);
+
+  const sentDate = useRef(date);
+  useEffect(() => {
+    if (sentDate.current === date) return;
+    sentDate.current = date;
+    post({ type: 'dateChange', date, url: window.location.href });
+  }, [date, post]);
+
+  const sentEvent = useRef(eventParam);
+  useEffect(() => {
+    if (sentEvent.current === eventParam) return;
+    sentEvent.current = eventParam;
+    const event = eventParam ? events.find(event => event.id === eventParam) : undefined;
+    if (event) post({ type: 'eventClick', event: summarizeEvent(event), url: window.location.href });
+  }, [eventParam, events, post]);
+
+  // Content height, so the host can size the iframe to fit, in responsive
+  // and Squarespace mode
+  useEffect(() => {
+    const container = containerRef.current;
+    if ((!config.responsive && !config.squarespaceMode) || !container) return;
+
+    let sentHeight = 0;
+    const sendHeight = () => {
+      const height = container.scrollHeight;
+      if (height === sentHeight) return;
+      sentHeight = height;
+      post({ type: 'resize', height });
+    };
+
+    const observer = new ResizeObserver(sendHeight);
+    observer.observe(container);
+    sendHeight();
+    return () => observer.disconnect();
+  }, [config.responsive, config.squarespaceMode, containerRef, post]);
+}
@@ -0,0 +1,64 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { CalendarData, CalendarEvent } from '../api/calendar/route';
+import { CalendarConfig, calendarApiQuery } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Searches look this far either side of today, past the loaded window
+const SEARCH_DAYS = 365;
+// ms to wait after the last keystroke
+const SEARCH_DEBOUNCE = 300;
+
+// Searches the configured calendars through /api/calendar's `q` parameter.
+// Results stay empty until the query has something to match.
+export function useEventSearch(config: CalendarConfig, query: string) {
+  const calendarQuery = useMemo(() => calendarApiQuery(config).toString(), [config]);
+  const trimmed = query.trim();
+
+  const [results, setResults] = useState<CalendarEvent[]>([]);
+  const [searchedFor, setSearchedFor] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!trimmed || !config.calendarUrl) return;
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(async () => {
+      const now = Date.now();
+      const params = new URLSearchParams({
+        q: trimmed,
+        timeMin: new Date(now - SEARCH_DAYS * DAY_MS).toISOString(),
+        timeMax: new Date(now + SEARCH_DAYS * DAY_MS).toISOString(),
+      });
+
+      try {
+        const response = await fetch(`/api/calendar?${calendarQuery}&${params}`, { signal: controller.signal });
+        const data: CalendarData & { error?: string } = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Search failed');
+        }
+
+        setResults(data.events || []);
+        setError(null);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        setResults([]);
+        setError(err instanceof Error ? err.message : 'Search failed');
+      }
+      setSearchedFor(trimmed);
+    }, SEARCH_DEBOUNCE);
+
+    return () => {
+      clearTimeout(timeoutId);
+      controller.abort();
+    };
+  }, [trimmed, calendarQuery, config.calendarUrl]);
+
+  return {
+    results: trimmed && searchedFor === trimmed ? results : [],
+    searching: !!trimmed && searchedFor !== trimmed,
+    error: trimmed ? error : null,
+  };
+}
@@ -0,0 +1,47 @@
+'use client';
+
+import { useCallback, useSyncExternalStore } from 'react';
+
+// Changes made through setHashParams replace the history entry, which doesn't
+// fire hashchange, so they're announced with one of our own
+function subscribe(onChange: () => void) {
+  window.addEventListener('hashchange', onChange);
+  return () => window.removeEventListener('hashchange', onChange);
+}
+
+function getHash() {
+  return window.location.hash;
+}
+
+function getServerHash() {
+  return '';
+}
+
+// Set keys of the page's URL hash without adding a history entry. Null
+// removes a key.
+export function setHashParams(values: Record<string, string | null>) {
+  const params = new URLSearchParams(window.location.hash.slice(1));
+  for (const [key, value] of Object.entries(values)) {
+    if (value === null) {
+      params.delete(key);
+    } else {
+      params.set(key, value);
+    }
+  }
+
+  const query = params.toString();
+  const url = `${window.location.pathname}${window.location.search}${query ? `#${query}` : ''}`;
+  window.history.replaceState(window.history.state, '', url);
+  window.dispatchEvent(new HashChangeEvent('hashchange'));
+}
+
+// One key of the page's URL hash (#key=value&other=value), so links can
+// restore the state it holds. Setting null removes the key.
+export function useHashParam(key: string): [string | null, (value: string | null) => void] {
+  const hash = useSyncExternalStore(subscribe, getHash, getServerHash);
+  const value = new URLSearchParams(hash.slice(1)).get(key);
+
+  const setValue = useCallback((next: string | null) => setHashParams({ [key]: next }), [key]);
+
+  return [value, setValue];
+}
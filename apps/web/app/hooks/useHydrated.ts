@@ -0,0 +1,14 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+
+function subscribe() {
+  return () => {};
+}
+
+// False on the server and while the page hydrates from its HTML, so the first
+// render can match what the server sent. Browser-only state (the viewer's
+// zone, their color scheme) should wait for true.
+export function useHydrated(): boolean {
+  return useSyncExternalStore(subscribe, () => true, () => false);
+}
@@ -0,0 +1,190 @@
+// Loading of the merged calendar data behind /api/calendar, its feed and the
+// server-rendered embed
+
+import { unstable_cache } from 'next/cache';
+import {
+  calendarApiQuery,
+  CalendarConfig,
+  CalendarSource,
+  calendarTimeRange,
+  EventFilterRule,
+  parseCalendarSource,
+  sanitizeFilterRules,
+} from '../types';
+import {
+  CalendarData,
+  CalendarEvent,
+  CalendarSourceInfo,
+  extractCalendarName,
+  extractTimeZone,
+  filterEventsByTimeRange,
+  parseICalEvents,
+} from './events';
+import { applyEventFilters } from './filters';
+import { searchEvents } from './search';
+import { CalendarSourceError, fetchCalendarSource } from './sources';
+
+// Upper bound on calendars merged into a single response
+const MAX_SOURCES = 10;
+
+// Longest time range one request can expand recurrences over, about 2 years
+const MAX_RANGE_DAYS = 2 * 366;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CalendarQuery {
+  sources: CalendarSource[];
+  sourceIds: string[];
+  timeMin: string;
+  timeMax: string;
+  filters: EventFilterRule[];
+  q: string;
+}
+
+function sourceErrorMessage(error: unknown): string {
+  return error instanceof CalendarSourceError
+    ? error.message
+    : 'Failed to fetch calendar data. Make sure the calendar is public.';
+}
+
+// Read the source, range and filter parameters shared by every calendar
+// route. Several calendars can be merged by repeating `url`; the optional
+// `sourceId` params tag their events in the same order, `filters` holds the
+// embed's filter rules as JSON and `q` is a search query. Invalid queries,
+// including bad dates and ranges over MAX_RANGE_DAYS, throw a
+// CalendarSourceError with status 400.
+export function parseCalendarQuery(
+  searchParams: URLSearchParams,
+  defaultRange: { timeMin: string; timeMax: string }
+): CalendarQuery {
+  const calendarInputs = [...searchParams.getAll('calendarId'), ...searchParams.getAll('url')];
+
+  if (calendarInputs.length === 0) {
+    throw new CalendarSourceError('Calendar ID or URL is required', 400);
+  }
+
+  if (calendarInputs.length > MAX_SOURCES) {
+    throw new CalendarSourceError(`At most ${MAX_SOURCES} calendars can be combined`, 400);
+  }
+
+  const sources = calendarInputs.map(parseCalendarSource);
+
+  if (sources.some(source => !source)) {
+    throw new CalendarSourceError('Invalid calendar ID or URL format', 400);
+  }
+
+  let filters: EventFilterRule[] = [];
+  const filtersParam = searchParams.get('filters');
+  if (filtersParam) {
+    try {
+      filters = sanitizeFilterRules(JSON.parse(filtersParam));
+    } catch {
+      throw new CalendarSourceError('Invalid filters', 400);
+    }
+  }
+
+  const timeMin = new Date(searchParams.get('timeMin') || defaultRange.timeMin);
+  const timeMax = new Date(searchParams.get('timeMax') || defaultRange.timeMax);
+  if (isNaN(timeMin.getTime()) || isNaN(timeMax.getTime())) {
+    throw new CalendarSourceError('timeMin and timeMax must be valid dates', 400);
+  }
+  if (timeMax < timeMin || timeMax.getTime() - timeMin.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+    throw new CalendarSourceError(`timeMax must be after timeMin, at most ${MAX_RANGE_DAYS} days later`, 400);
+  }
+
+  return {
+    sources: sources as CalendarSource[],
+    sourceIds: searchParams.getAll('sourceId'),
+    timeMin: timeMin.toISOString(),
+    timeMax: timeMax.toISOString(),
+    filters,
+    q: searchParams.get('q') || '',
+  };
+}
+
+// Fetch, merge, filter and search every calendar in the query. Calendars that fail
+// are reported in `calendars`; the load only throws when every one failed.
+export async function loadCalendarData({ sources, sourceIds, timeMin, timeMax, filters, q }: CalendarQuery): Promise<CalendarData> {
+  const results = await Promise.allSettled(sources.map(source => fetchCalendarSource(source)));
+
+  const firstFailure = results.find(result => result.status === 'rejected');
+  if (firstFailure && results.every(result => result.status === 'rejected')) {
+    const error = firstFailure.reason;
+    if (error instanceof CalendarSourceError) throw error;
+    console.error('Error fetching calendar:', error);
+    throw new CalendarSourceError(sourceErrorMessage(error), 500);
+  }
+
+  const calendars: CalendarSourceInfo[] = [];
+  const events: CalendarEvent[] = [];
+
+  results.forEach((result, index) => {
+    const sourceId = sourceIds[index] || String(index);
+
+    if (result.status === 'rejected') {
+      if (!(result.reason instanceof CalendarSourceError)) {
+        console.error('Error fetching calendar:', result.reason);
+      }
+      calendars.push({ sourceId, summary: '', timeZone: 'UTC', error: sourceErrorMessage(result.reason) });
+      return;
+    }
+
+    const icalData = result.value;
+    calendars.push({
+      sourceId,
+      summary: extractCalendarName(icalData) || 'Calendar',
+      timeZone: extractTimeZone(icalData) || 'UTC',
+    });
+    for (const event of parseICalEvents(icalData, timeMin, timeMax)) {
+      events.push({ ...event, sourceId });
+    }
+  });
+
+  const primary = calendars.find(calendar => !calendar.error)!;
+  const inRange = filterEventsByTimeRange(events, timeMin, timeMax);
+
+  return {
+    summary: primary.summary,
+    timeZone: primary.timeZone,
+    events: searchEvents(applyEventFilters(inRange, filters), q),
+    calendars,
+    updated: new Date().toISOString(),
+  };
+}
+
+// The first window of events an embed shows, loaded on the server so the
+// page arrives with them. Null when that fails; the browser then tries again
+// and shows the error.
+export async function loadEmbedCalendarData(config: CalendarConfig): Promise<CalendarData | null> {
+  if (!config.calendarUrl) return null;
+
+  try {
+    return await loadCalendarData(parseCalendarQuery(calendarApiQuery(config), calendarTimeRange(config)));
+  } catch (error) {
+    if (!(error instanceof CalendarSourceError)) {
+      console.error('Error loading embed calendar:', error);
+    }
+    return null;
+  }
+}
+
+// Name of a calendar, cached for an hour on its own so titles such as
+// oEmbed's don't load and parse the whole feed. Failures aren't cached.
+const cachedCalendarName = unstable_cache(async (input: string) => {
+  const source = parseCalendarSource(input);
+  if (!source) return null;
+  return extractCalendarName(await fetchCalendarSource(source)) || null;
+}, ['calendar-name'], { revalidate: 3600 });
+
+// The embed's primary calendar name, or null when it can't be loaded
+export async function loadEmbedCalendarName(config: CalendarConfig): Promise<string | null> {
+  if (!config.calendarUrl) return null;
+
+  try {
+    return await cachedCalendarName(config.calendarUrl);
+  } catch (error) {
+    if (!(error instanceof CalendarSourceError)) {
+      console.error('Error loading calendar name:', error);
+    }
+    return null;
+  }
+}
@@ -0,0 +1,117 @@
+// postMessage protocol between an embed and the page hosting its iframe.
+//
+// Every message in either direction is an object tagged with the protocol
+// name and version:
+//
+//   { protocol: 'simply-calendar', version: 1, type: '<type>', ...fields }
+//
+// Commands the host sends to the iframe's contentWindow:
+//
+//   setView    { view: 'month' | 'week' | 'day' | 'agenda' | 'year' | 'multiMonth' }
+//   goToDate   { date: 'YYYY-MM-DD' }
+//   setFilter  { tab: string | null }     Open the category tab with this label, or null for all
+//   openEvent  { id: string }             Event id, as in eventClick
+//
+// Events the embed posts to its parent:
+//
+//   ready       { view, date }           Events have loaded and commands are accepted
+//   eventClick  { event, url }           An event was opened; `event` is an EmbedEventSummary
+//   viewChange  { view, url }
+//   dateChange  { date, url }
+//   resize      { height }               Content height in px, in responsive and Squarespace mode
+//   error       { message, command? }    Loading failed, or a command was rejected
+//
+// `url` is a link to the embed in its current state, which the host can
+// keep as a permalink and restore by loading it into the iframe. Commands
+// from a newer protocol version are rejected with an error. When the embed
+// config lists allowedOrigins, messages are only sent to and accepted from
+// those origins. Otherwise any page may host and command the embed, but it
+// only posts ready, resize and error, which carry nothing about the events.
+//
+// allowedOrigins only protects saved embeds (/embed/<id>). An /embed link
+// carries its config in the URL, so a page can frame it with its own origin
+// added and get every message.
+
+import { CalendarEvent } from './events';
+import { CalendarConfig, VIEW_MODES } from '../types';
+
+export const EMBED_PROTOCOL = 'simply-calendar';
+export const EMBED_PROTOCOL_VERSION = 1;
+
+export type EmbedCommand =
+  | { type: 'setView'; view: CalendarConfig['viewMode'] }
+  | { type: 'goToDate'; date: string }
+  | { type: 'setFilter'; tab: string | null }
+  | { type: 'openEvent'; id: string };
+
+// What eventClick tells the host about an event
+export type EmbedEventSummary = Pick<CalendarEvent, 'id' | 'title' | 'start' | 'end' | 'allDay' | 'location' | 'sourceId'>;
+
+export type EmbedEvent =
+  | { type: 'ready'; view: CalendarConfig['viewMode']; date: string }
+  | { type: 'eventClick'; event: EmbedEventSummary; url: string }
+  | { type: 'viewChange'; view: CalendarConfig['viewMode']; url: string }
+  | { type: 'dateChange'; date: string; url: string }
+  | { type: 'resize'; height: number }
+  | { type: 'error'; message: string; command?: string };
+
+export type EmbedMessage<T extends { type: string }> = T & { protocol: typeof EMBED_PROTOCOL; version: number };
+
+// Thrown for messages that are meant for us but can't be carried out
+export class EmbedCommandError extends Error {
+  constructor(message: string, public command?: string) {
+    super(message);
+    this.name = 'EmbedCommandError';
+  }
+}
+
+// Events posted even when no allowedOrigins are set
+export function isPublicEmbedEvent(message: EmbedEvent): boolean {
+  return message.type === 'ready' || message.type === 'resize' || message.type === 'error';
+}
+
+export function embedMessage<T extends { type: string }>(message: T): EmbedMessage<T> {
+  return { protocol: EMBED_PROTOCOL, version: EMBED_PROTOCOL_VERSION, ...message };
+}
+
+export function summarizeEvent({ id, title, start, end, allDay, location, sourceId }: CalendarEvent): EmbedEventSummary {
+  return { id, title, start, end, allDay, location, sourceId };
+}
+
+// The command a message carries, or null for messages of other protocols,
+// which share the window and are ignored. Malformed commands throw.
+export function parseEmbedCommand(data: unknown): EmbedCommand | null {
+  if (!data || typeof data !== 'object') return null;
+  const message = data as Record<string, unknown>;
+  if (message.protocol !== EMBED_PROTOCOL) return null;
+
+  const type = typeof message.type === 'string' ? message.type : undefined;
+  if (typeof message.version !== 'number' || message.version > EMBED_PROTOCOL_VERSION) {
+    throw new EmbedCommandError(`Unsupported protocol version, this embed speaks version ${EMBED_PROTOCOL_VERSION}`, type);
+  }
+
+  switch (type) {
+    case 'setView':
+      if (VIEW_MODES.includes(message.view as CalendarConfig['viewMode'])) {
+        return { type, view: message.view as CalendarConfig['viewMode'] };
+      }
+      throw new EmbedCommandError(`view must be one of ${VIEW_MODES.join(', ')}`, type);
+    case 'goToDate':
+      if (typeof message.date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(message.date)) {
+        return { type, date: message.date };
+      }
+      throw new EmbedCommandError('date must be a YYYY-MM-DD string', type);
+    case 'setFilter':
+      if (message.tab === null || typeof message.tab === 'string') {
+        return { type, tab: message.tab || null };
+      }
+      throw new EmbedCommandError('tab must be a tab label or null', type);
+    case 'openEvent':
+      if (typeof message.id === 'string' && message.id) {
+        return { type, id: message.id };
+      }
+      throw new EmbedCommandError('id must be an event id', type);
+    default:
+      throw new EmbedCommandError(`Unknown command ${type ?? '(no type)'}`, type);
+  }
+}
@@ -0,0 +1,198 @@
+// Source of /embed.js, the loader site owners can include instead of pasting
+// an iframe. It defines a <simply-calendar> element:
+//
+//   <simply-calendar calendar-url="..." view-mode="week"></simply-calendar>
+//   <simply-calendar embed-id="abc123"></simply-calendar>
+//   <script src="https://<host>/embed.js" async></script>
+//
+// Attributes are CalendarConfig fields in kebab-case, with lists as JSON,
+// or the id of a saved embed. The element sizes its iframe from the resize
+// messages, exposes the protocol's commands as methods (setView, goToDate,
+// setFilter, openEvent) and re-dispatches its events as DOM events of the
+// same name, with the message as `detail`. Commands sent before `ready` wait
+// for it; if the embed fails to load instead, each gets an `error` event.
+// eventClick, viewChange and dateChange only arrive when the embed's
+// allowedOrigins include the page's origin.
+
+import { CalendarConfig, defaultConfig } from '../types';
+import { EMBED_PROTOCOL, EMBED_PROTOCOL_VERSION } from './embed-protocol';
+
+export const EMBED_ELEMENT_NAME = 'simply-calendar';
+
+// calendarUrl -> calendar-url
+export function configAttributeName(field: keyof CalendarConfig): string {
+  return field.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`);
+}
+
+// `fallbackOrigin` is used when the browser can't tell where the script was
+// loaded from
+export function embedScript(fallbackOrigin: string): string {
+  const fields = Object.keys(defaultConfig) as Array<keyof CalendarConfig>;
+  const attributes = Object.fromEntries(fields.map(field => [configAttributeName(field), field]));
+
+  return `/* <${EMBED_ELEMENT_NAME}> loader, protocol version ${EMBED_PROTOCOL_VERSION} */
+(function () {
+  'use strict';
+  if (!window.customElements || window.customElements.get(${JSON.stringify(EMBED_ELEMENT_NAME)})) return;
+
+  var PROTOCOL = ${JSON.stringify(EMBED_PROTOCOL)};
+  var VERSION = ${EMBED_PROTOCOL_VERSION};
+  var ATTRIBUTES = ${JSON.stringify(attributes)};
+  var DEFAULT_HEIGHT = ${JSON.stringify(defaultConfig.height)};
+  // How long after the iframe loads the embed may take to report ready
+  var READY_TIMEOUT = 15000;
+  var ORIGIN = ${JSON.stringify(fallbackOrigin)};
+  try {
+    if (document.currentScript && document.currentScript.src) ORIGIN = new URL(document.currentScript.src).origin;
+  } catch (e) {}
+
+  function pad(value) {
+    return (value < 10 ? '0' : '') + value;
+  }
+
+  class SimplyCalendarElement extends HTMLElement {
+    static get observedAttributes() {
+      return Object.keys(ATTRIBUTES).concat(['embed-id', 'title']);
+    }
+
+    constructor() {
+      super();
+      this._ready = false;
+      this._queue = [];
+      this._readyTimer = null;
+      this._failure = null;   // Why the embed isn't ready, once that's known
+      this._onMessage = this._onMessage.bind(this);
+
+      this._iframe = document.createElement('iframe');
+      this._iframe.addEventListener('load', this._onLoad.bind(this));
+      this._iframe.setAttribute('loading', 'lazy');
+      this._iframe.setAttribute('allow', 'clipboard-write');
+      this._iframe.style.cssText = 'display: block; width: 100%; border: none;';
+      var style = document.createElement('style');
+      style.textContent = ':host { display: block; }';
+      var root = this.attachShadow({ mode: 'open' });
+      root.appendChild(style);
+      root.appendChild(this._iframe);
+    }
+
+    connectedCallback() {
+      window.addEventListener('message', this._onMessage);
+      this._update();
+    }
+
+    disconnectedCallback() {
+      window.removeEventListener('message', this._onMessage);
+      clearTimeout(this._readyTimer);
+    }
+
+    attributeChangedCallback(name) {
+      if (!this.isConnected) return;
+      // A new height replaces the one from the last resize message
+      if (name === 'height') this._iframe.style.height = '';
+      this._update();
+    }
+
+    get src() {
+      var id = this.getAttribute('embed-id');
+      if (id) return ORIGIN + '/embed/' + encodeURIComponent(id);
+
+      var params = new URLSearchParams();
+      for (var name in ATTRIBUTES) {
+        var value = this.getAttribute(name);
+        if (value !== null) params.set(ATTRIBUTES[name], value);
+      }
+      return ORIGIN + '/embed?' + params.toString();
+    }
+
+    setView(view) {
+      this._send('setView', { view: view });
+    }
+
+    // A Date, or a YYYY-MM-DD string
+    goToDate(date) {
+      if (date instanceof Date) {
+        date = date.getFullYear() + '-' + pad(date.getMonth() + 1) + '-' + pad(date.getDate());
+      }
+      this._send('goToDate', { date: String(date) });
+    }
+
+    // The label of a category tab, or null for all events
+    setFilter(tab) {
+      this._send('setFilter', { tab: tab == null ? null : String(tab) });
+    }
+
+    openEvent(id) {
+      this._send('openEvent', { id: String(id) });
+    }
+
+    _update() {
+      var src = this.src;
+      if (this._iframe.getAttribute('src') !== src) {
+        this._ready = false;
+        this._failure = null;
+        this._iframe.setAttribute('src', src);
+      }
+      this._iframe.title = this.getAttribute('title') || 'Calendar';
+
+      var style = this._iframe.style;
+      if (!style.height) style.height = this.getAttribute('height') || DEFAULT_HEIGHT;
+      style.minHeight = this.getAttribute('min-height') || '';
+      style.maxHeight = this.getAttribute('max-height') || '';
+    }
+
+    _send(type, fields) {
+      var message = Object.assign({ protocol: PROTOCOL, version: VERSION, type: type }, fields);
+      if (this._ready && this._iframe.contentWindow) {
+        this._iframe.contentWindow.postMessage(message, ORIGIN);
+      } else {
+        this._queue.push(message);
+        if (this._failure) this._failQueue(this._failure);
+      }
+    }
+
+    _onLoad() {
+      clearTimeout(this._readyTimer);
+      if (this._ready) return;
+      var self = this;
+      this._readyTimer = setTimeout(function () {
+        if (!self._ready) self._failQueue('The calendar did not load');
+      }, READY_TIMEOUT);
+    }
+
+    // Drop the commands waiting for ready, with an error event for each
+    _failQueue(message) {
+      this._failure = message;
+      var queue = this._queue.splice(0);
+      for (var i = 0; i < queue.length; i++) {
+        var detail = { protocol: PROTOCOL, version: VERSION, type: 'error', message: message, command: queue[i].type };
+        this.dispatchEvent(new CustomEvent('error', { detail: detail }));
+      }
+    }
+
+    _onMessage(e) {
+      var data = e.data;
+      if (e.source !== this._iframe.contentWindow || e.origin !== ORIGIN) return;
+      if (!data || data.protocol !== PROTOCOL) return;
+
+      if (data.type === 'resize' && data.height > 0) {
+        this._iframe.style.height = data.height + 'px';
+      }
+      if (data.type === 'error' && !this._ready) {
+        this._failQueue(data.message);
+      }
+      if (data.type === 'ready') {
+        this._ready = true;
+        this._failure = null;
+        clearTimeout(this._readyTimer);
+        var queue = this._queue.splice(0);
+        for (var i = 0; i < queue.length; i++) e.source.postMessage(queue[i], ORIGIN);
+      }
+
+      this.dispatchEvent(new CustomEvent(data.type, { detail: data }));
+    }
+  }
+
+  window.customElements.define(${JSON.stringify(EMBED_ELEMENT_NAME)}, SimplyCalendarElement);
+})();
+`;
+}
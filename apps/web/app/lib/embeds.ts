@@ -0,0 +1,94 @@
+// Saved embed configurations, served at /embed/<id>. Each embed has an edit
+// key, handed out once on creation, that is required to change or delete it.
+
+import { createHash, timingSafeEqual } from 'crypto';
+import { CalendarConfig, configFromJSON } from '../types';
+import { createId, readCollection, updateCollection } from './store';
+
+const COLLECTION = 'embeds';
+
+export interface SavedEmbed {
+  id: string;
+  config: CalendarConfig;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface StoredEmbed extends SavedEmbed {
+  editKeyHash: string;
+}
+
+export class EmbedStoreError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'EmbedStoreError';
+  }
+}
+
+function hashEditKey(editKey: string): string {
+  return createHash('sha256').update(editKey).digest('hex');
+}
+
+// Throws unless the embed exists and the key matches
+function authorize(records: Record<string, StoredEmbed>, id: string, editKey: string | null): StoredEmbed {
+  const embed = Object.hasOwn(records, id) ? records[id] : undefined;
+  if (!embed) {
+    throw new EmbedStoreError('Embed not found', 404);
+  }
+
+  const expected = Buffer.from(embed.editKeyHash, 'hex');
+  const actual = Buffer.from(hashEditKey(editKey || ''), 'hex');
+  if (!editKey || !timingSafeEqual(expected, actual)) {
+    throw new EmbedStoreError('Invalid edit key for this embed', 403);
+  }
+
+  return embed;
+}
+
+function toSavedEmbed({ id, config, createdAt, updatedAt }: StoredEmbed): SavedEmbed {
+  return { id, config: configFromJSON(config), createdAt, updatedAt };
+}
+
+export async function createEmbed(config: unknown): Promise<{ embed: SavedEmbed; editKey: string }> {
+  const editKey = createId();
+
+  const embed = await updateCollection<StoredEmbed, StoredEmbed>(COLLECTION, records => {
+    let id = createId(6);
+    while (Object.hasOwn(records, id)) id = createId(6);
+
+    const now = new Date().toISOString();
+    records[id] = {
+      id,
+      config: configFromJSON(config),
+      createdAt: now,
+      updatedAt: now,
+      editKeyHash: hashEditKey(editKey),
+    };
+    return records[id];
+  });
+
+  return { embed: toSavedEmbed(embed), editKey };
+}
+
+export async function getEmbed(id: string): Promise<SavedEmbed | null> {
+  const records = await readCollection<StoredEmbed>(COLLECTION);
+  return Object.hasOwn(records, id) ? toSavedEmbed(records[id]) : null;
+}
+
+export async function updateEmbed(id: string, config: unknown, editKey: string | null): Promise<SavedEmbed> {
+  const embed = await updateCollection<StoredEmbed, StoredEmbed>(COLLECTION, records => {
+    const existing = authorize(records, id, editKey);
+    existing.config = configFromJSON(config);
+    existing.updatedAt = new Date().toISOString();
+    return existing;
+  });
+
+  return toSavedEmbed(embed);
+}
+
+export async function deleteEmbed(id: string, editKey: string | null): Promise<void> {
+  await updateCollection<StoredEmbed, void>(COLLECTION, records => {
+    authorize(records, id, editKey);
+    delete records[id];
+  });
+}
@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import { CalendarEvent, filterEventsByTimeRange, formatCalendarFeed, formatVEvent, parseICalEvents } from './events';
+import { escapeICalText } from './ical';
+
+function feed(...lines: string[]): string {
+  return ['BEGIN:VCALENDAR', 'VERSION:2.0', ...lines, 'END:VCALENDAR'].join('\r\n');
+}
+
+describe('parseICalEvents', () => {
+  const weekly = feed(
+    'BEGIN:VEVENT',
+    'UID:standup',
+    'SUMMARY:Standup',
+    'DTSTART:20260105T090000Z',
+    'DTEND:20260105T093000Z',
+    'RRULE:FREQ=WEEKLY;COUNT=4',
+    'EXDATE:20260112T090000Z',
+    'END:VEVENT',
+    'BEGIN:VEVENT',
+    'UID:standup',
+    'RECURRENCE-ID:20260119T090000Z',
+    'SUMMARY:Standup (moved)',
+    'DTSTART:20260119T140000Z',
+    'DTEND:20260119T143000Z',
+    'END:VEVENT',
+  );
+
+  it('drops EXDATEs and replaces overridden occurrences', () => {
+    const events = parseICalEvents(weekly, '2026-01-01T00:00:00Z', '2026-02-01T00:00:00Z');
+
+    expect(events.map(event => [event.id, event.title, event.start.dateTime])).toEqual([
+      ['standup_20260105T090000Z', 'Standup', '2026-01-05T09:00:00Z'],
+      ['standup_20260126T090000Z', 'Standup', '2026-01-26T09:00:00Z'],
+      ['standup_20260119T090000Z', 'Standup (moved)', '2026-01-19T14:00:00Z'],
+    ]);
+  });
+
+  it('keeps occurrences the same length as the first', () => {
+    const [event] = parseICalEvents(weekly, '2026-01-01T00:00:00Z', '2026-02-01T00:00:00Z');
+    expect(event.end.dateTime).toBe('2026-01-05T09:30:00Z');
+  });
+
+  it('drops a cancelled override', () => {
+    const events = parseICalEvents(
+      weekly.replace('SUMMARY:Standup (moved)', 'STATUS:CANCELLED'),
+      '2026-01-01T00:00:00Z',
+      '2026-02-01T00:00:00Z'
+    );
+    expect(events.map(event => event.id)).toEqual(['standup_20260105T090000Z', 'standup_20260126T090000Z']);
+  });
+
+  it('ends all-day occurrences a whole number of days later', () => {
+    const events = parseICalEvents(feed(
+      'BEGIN:VEVENT',
+      'UID:trip',
+      'DTSTART;VALUE=DATE:20260301',
+      'DTEND;VALUE=DATE:20260303',
+      'RRULE:FREQ=YEARLY;COUNT=2',
+      'END:VEVENT',
+    ), '2026-01-01T00:00:00Z', '2028-01-01T00:00:00Z');
+
+    expect(events.map(event => [event.start.date, event.end.date])).toEqual([
+      ['2026-03-01', '2026-03-03'],
+      ['2027-03-01', '2027-03-03'],
+    ]);
+  });
+});
+
+describe('filterEventsByTimeRange', () => {
+  const event = (id: string, start: string, end: string): CalendarEvent => ({
+    id,
+    title: id,
+    start: { dateTime: start },
+    end: { dateTime: end },
+    allDay: false,
+  });
+
+  const events = [
+    event('before', '2026-01-01T08:00:00Z', '2026-01-01T09:00:00Z'),
+    event('in progress', '2026-01-01T09:30:00Z', '2026-01-01T10:30:00Z'),
+    event('inside', '2026-01-01T10:15:00Z', '2026-01-01T10:45:00Z'),
+    event('spanning', '2026-01-01T00:00:00Z', '2026-01-02T00:00:00Z'),
+    event('at the end', '2026-01-01T11:00:00Z', '2026-01-01T12:00:00Z'),
+    event('instant', '2026-01-01T10:00:00Z', '2026-01-01T10:00:00Z'),
+  ];
+
+  it('keeps events overlapping the range, by start', () => {
+    expect(filterEventsByTimeRange(events, '2026-01-01T10:00:00Z', '2026-01-01T11:00:00Z').map(event => event.id))
+      .toEqual(['spanning', 'in progress', 'instant', 'inside']);
+  });
+});
+
+describe('formatVEvent', () => {
+  const event: CalendarEvent = {
+    id: 'standup_20260105T140000Z',
+    title: 'Standup, daily; team\\ops',
+    description: 'Line one\nLine two',
+    categories: ['Work', 'Smith, J.'],
+    start: { dateTime: '2026-01-05T09:00:00-05:00', timeZone: 'America/New_York' },
+    end: { dateTime: '2026-01-05T09:30:00-05:00', timeZone: 'America/New_York' },
+    allDay: false,
+  };
+
+  it('escapes text and keeps the zone of zoned times', () => {
+    expect(formatVEvent(event, new Date('2026-01-01T00:00:00Z'))).toEqual([
+      'BEGIN:VEVENT',
+      'UID:standup_20260105T140000Z',
+      'DTSTAMP:20260101T000000Z',
+      'DTSTART;TZID=America/New_York:20260105T090000',
+      'DTEND;TZID=America/New_York:20260105T093000',
+      'SUMMARY:Standup\\, daily\\; team\\\\ops',
+      'DESCRIPTION:Line one\\nLine two',
+      'CATEGORIES:Work,Smith\\, J.',
+      'END:VEVENT',
+    ]);
+  });
+
+  it('writes offset times in UTC and all-day events as dates', () => {
+    const lines = formatVEvent({
+      ...event,
+      start: { dateTime: '2026-01-05T09:00:00+01:00' },
+      end: { date: '2026-01-06' },
+    });
+    expect(lines).toContain('DTSTART:20260105T080000Z');
+    expect(lines).toContain('DTEND;VALUE=DATE:20260106');
+  });
+});
+
+describe('formatCalendarFeed', () => {
+  it('parses back into the same events', () => {
+    const events = parseICalEvents(feed(
+      'BEGIN:VEVENT',
+      'UID:weekly',
+      `SUMMARY:${escapeICalText('A long, escaped; title '.repeat(5))}`,
+      'DTSTART;TZID=Europe/Berlin:20260323T090000',
+      'DTEND;TZID=Europe/Berlin:20260323T100000',
+      'RRULE:FREQ=WEEKLY;COUNT=2',
+      'END:VEVENT',
+    ), '2026-03-01T00:00:00Z', '2026-04-30T00:00:00Z');
+
+    const document = formatCalendarFeed(events, { name: 'Team, EU', timeZone: 'Europe/Berlin' });
+    expect(document.split('\r\n').every(line => Buffer.byteLength(line, 'utf8') <= 75)).toBe(true);
+    expect(document).toContain('X-WR-CALNAME:Team\\, EU');
+    expect(document).toContain('BEGIN:VTIMEZONE');
+
+    expect(parseICalEvents(document, '2026-03-01T00:00:00Z', '2026-04-30T00:00:00Z')).toEqual(events);
+  });
+});
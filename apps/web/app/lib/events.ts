@@ -0,0 +1,467 @@
+// Parsing of iCal feeds into the CalendarEvent objects served by /api/calendar,
+// and serializing those events back into iCal for the .ics routes
+
+import {
+  ICalDateValue,
+  escapeICalText,
+  formatICalendar,
+  formatICalStamp,
+  formatISODate,
+  formatISODateTime,
+  parseICalDateList,
+  parseICalDateValue,
+  parseICalDuration,
+  parseICalProperty,
+  parseICalTextList,
+  unescapeICalText,
+  unfoldICalLines,
+} from './ical';
+import { normalizeColor } from './colors';
+import { createExpansionBudget, expandRecurrence, parseRecurrenceRule } from './recurrence';
+import {
+  createTimeZoneResolver,
+  formatVTimeZone,
+  formatZonedDateTime,
+  isValidTimeZone,
+  TimeZoneResolver,
+} from './timezone';
+
+export interface CalendarEvent {
+  id: string;
+  title: string;
+  description?: string;
+  location?: string;
+  categories?: string[];
+  start: {
+    dateTime?: string;
+    date?: string;
+    timeZone?: string;
+  };
+  end: {
+    dateTime?: string;
+    date?: string;
+    timeZone?: string;
+  };
+  allDay: boolean;
+  color?: string;
+  htmlLink?: string;
+  sourceId?: string;
+}
+
+export interface CalendarSourceInfo {
+  sourceId: string;
+  summary: string;
+  timeZone: string;
+  error?: string;
+}
+
+export interface CalendarData {
+  summary: string;
+  description?: string;
+  timeZone: string;
+  events: CalendarEvent[];
+  calendars?: CalendarSourceInfo[];
+  updated: string;
+}
+
+interface ParsedEvent {
+  event: CalendarEvent;
+  start: ICalDateValue;
+  end?: ICalDateValue;
+  duration?: number;
+  rrule?: string;
+  rdates: ICalDateValue[];
+  exdates: ICalDateValue[];
+  recurrenceId?: ICalDateValue;
+  cancelled: boolean;
+}
+
+// Parse the VEVENT components of an iCal feed
+function parseVEvents(icalData: string): ParsedEvent[] {
+  const parsedEvents: ParsedEvent[] = [];
+  const componentStack: string[] = [];
+
+  let current: (Omit<ParsedEvent, 'start'> & { start?: ICalDateValue }) | null = null;
+
+  for (const line of unfoldICalLines(icalData)) {
+    const property = parseICalProperty(line);
+    if (!property) continue;
+
+    if (property.name === 'BEGIN') {
+      componentStack.push(property.value.toUpperCase());
+      if (property.value.toUpperCase() === 'VEVENT') {
+        current = {
+          event: {
+            id: '',
+            title: 'Untitled Event',
+            allDay: false,
+          } as CalendarEvent,
+          rdates: [],
+          exdates: [],
+          cancelled: false,
+        };
+      }
+      continue;
+    }
+
+    if (property.name === 'END') {
+      const component = componentStack.pop();
+      if (component === 'VEVENT' && current) {
+        if (current.event.id && current.start) {
+          parsedEvents.push(current as ParsedEvent);
+        }
+        current = null;
+      }
+      continue;
+    }
+
+    // Skip properties of nested components such as VALARM
+    if (!current || componentStack[componentStack.length - 1] !== 'VEVENT') continue;
+
+    const { name, params, value } = property;
+
+    switch (name) {
+      case 'UID':
+        current.event.id = value;
+        break;
+      case 'SUMMARY':
+        current.event.title = unescapeICalText(value);
+        break;
+      case 'DESCRIPTION':
+        current.event.description = unescapeICalText(value);
+        break;
+      case 'LOCATION':
+        current.event.location = unescapeICalText(value);
+        break;
+      case 'CATEGORIES':
+        // May be repeated, each with one or more comma-separated values
+        current.event.categories = [...(current.event.categories ?? []), ...parseICalTextList(value)];
+        break;
+      case 'DTSTART': {
+        const start = parseICalDateValue(value, params);
+        if (start) {
+          current.start = start;
+          current.event.allDay = start.dateOnly;
+        }
+        break;
+      }
+      case 'DTEND':
+        current.end = parseICalDateValue(value, params) ?? undefined;
+        break;
+      case 'DURATION':
+        current.duration = parseICalDuration(value) ?? undefined;
+        break;
+      case 'RRULE':
+        current.rrule = value;
+        break;
+      case 'RDATE':
+        current.rdates.push(...parseICalDateList(value, params));
+        break;
+      case 'EXDATE':
+        current.exdates.push(...parseICalDateList(value, params));
+        break;
+      case 'RECURRENCE-ID':
+        current.recurrenceId = parseICalDateValue(value, params) ?? undefined;
+        break;
+      case 'STATUS':
+        current.cancelled = value.toUpperCase() === 'CANCELLED';
+        break;
+      case 'URL':
+        current.event.htmlLink = value;
+        break;
+      case 'COLOR':
+        current.event.color = normalizeColor(value) ?? undefined;
+        break;
+    }
+  }
+
+  return parsedEvents;
+}
+
+// Format a wall-clock time in the given zone for CalendarEvent.start/end
+function formatEventTime(
+  wallClock: Date,
+  value: ICalDateValue,
+  zone: string | undefined,
+  resolver: TimeZoneResolver,
+): CalendarEvent['start'] {
+  if (value.dateOnly) return { date: formatISODate(wallClock) };
+  if (!zone) return { dateTime: formatISODateTime(wallClock, false) };
+  if (zone === 'UTC') return { dateTime: formatISODateTime(wallClock, true), timeZone: 'UTC' };
+
+  const offset = wallClock.getTime() - resolver.toInstant(wallClock, zone).getTime();
+  return {
+    dateTime: formatZonedDateTime(wallClock, offset),
+    timeZone: resolver.ianaName(zone),
+  };
+}
+
+// Build the CalendarEvent for one occurrence of a parsed event, where start
+// is a wall-clock time in the zone of the event's DTSTART
+function toCalendarEvent(parsed: ParsedEvent, start: Date, id: string, resolver: TimeZoneResolver): CalendarEvent {
+  const startZone = resolver.zoneOf(parsed.start);
+  const event: CalendarEvent = {
+    ...parsed.event,
+    id,
+    start: formatEventTime(start, parsed.start, startZone, resolver),
+  };
+
+  if (parsed.start.dateOnly) {
+    // All-day lengths are in whole days, not affected by DST
+    const days = parsed.end
+      ? Math.round((parsed.end.date.getTime() - parsed.start.date.getTime()) / (24 * 60 * 60 * 1000))
+      : parsed.duration !== undefined ? Math.round(parsed.duration / (24 * 60 * 60 * 1000)) : undefined;
+
+    if (days !== undefined) {
+      const end = new Date(start);
+      end.setUTCDate(end.getUTCDate() + days);
+      event.end = { date: formatISODate(end) };
+    }
+    return event;
+  }
+
+  const duration = parsed.end
+    ? eventInstant(parsed.end, resolver).getTime() - eventInstant(parsed.start, resolver).getTime()
+    : parsed.duration;
+
+  if (duration !== undefined) {
+    // DTEND may use a different zone than DTSTART
+    const endValue = parsed.end ?? parsed.start;
+    const endZone = resolver.zoneOf(endValue);
+    const endInstant = new Date(resolver.toInstant(start, startZone).getTime() + duration);
+    event.end = formatEventTime(resolver.toWallClock(endInstant, endZone), endValue, endZone, resolver);
+  }
+
+  return event;
+}
+
+function eventInstant(value: ICalDateValue, resolver: TimeZoneResolver): Date {
+  return resolver.toInstant(value.date, resolver.zoneOf(value));
+}
+
+// Occurrence IDs are the UID plus the original start in UTC, the same form
+// Google uses for instance IDs, e.g. uid_20261020T130000Z
+function occurrenceId(uid: string, value: ICalDateValue, instant: Date, resolver: TimeZoneResolver): string {
+  const absolute = resolver.zoneOf(value) !== undefined;
+  return `${uid}_${formatICalStamp(instant, value.dateOnly, absolute)}`;
+}
+
+// Parse iCal format to extract events, expanding recurring events into
+// their individual occurrences within the requested time range
+export function parseICalEvents(icalData: string, timeMin: string, timeMax: string): CalendarEvent[] {
+  const parsedEvents = parseVEvents(icalData);
+  const resolver = createTimeZoneResolver(icalData, extractTimeZone(icalData));
+
+  // RECURRENCE-ID overrides, keyed by UID and then by the original start
+  const overrides = new Map<string, Map<number, ParsedEvent>>();
+  for (const parsed of parsedEvents) {
+    if (!parsed.recurrenceId) continue;
+    const byStart = overrides.get(parsed.event.id) ?? new Map<number, ParsedEvent>();
+    byStart.set(eventInstant(parsed.recurrenceId, resolver).getTime(), parsed);
+    overrides.set(parsed.event.id, byStart);
+  }
+
+  // Occurrences are generated in wall-clock time, so pad the range by a day
+  // either side and let filterEventsByTimeRange do the exact cut
+  const rangeStart = new Date(new Date(timeMin).getTime() - 24 * 60 * 60 * 1000);
+  const rangeEnd = new Date(new Date(timeMax).getTime() + 24 * 60 * 60 * 1000);
+
+  // Shared by every rule in the feed, so repeating a costly rule across
+  // many events can't multiply the work
+  const budget = createExpansionBudget();
+  const events: CalendarEvent[] = [];
+
+  for (const parsed of parsedEvents) {
+    if (parsed.recurrenceId || parsed.cancelled) continue;
+
+    const uid = parsed.event.id;
+    const zone = resolver.zoneOf(parsed.start);
+    const rule = parsed.rrule ? parseRecurrenceRule(parsed.rrule) : null;
+
+    if (!rule && parsed.rdates.length === 0) {
+      events.push(toCalendarEvent(parsed, parsed.start.date, uid, resolver));
+      continue;
+    }
+
+    // A UTC UNTIL has to be compared against occurrences in the event's own zone
+    if (rule?.until && !rule.until.dateOnly) {
+      const untilInstant = eventInstant(rule.until, resolver);
+      rule.until = { ...rule.until, date: resolver.toWallClock(untilInstant, zone) };
+    }
+
+    // Pull the range back by the event's length so events already in progress are kept
+    const duration = parsed.end ? parsed.end.date.getTime() - parsed.start.date.getTime() : parsed.duration ?? 0;
+    const expansionStart = new Date(rangeStart.getTime() - Math.max(0, duration));
+
+    const starts = rule
+      ? expandRecurrence(parsed.start.date, rule, expansionStart, rangeEnd, budget)
+      : [parsed.start.date];
+
+    for (const rdate of parsed.rdates) {
+      const rdateStart = rdate.dateOnly ? rdate.date : resolver.toWallClock(eventInstant(rdate, resolver), zone);
+      if (rdateStart >= expansionStart && rdateStart <= rangeEnd) starts.push(rdateStart);
+    }
+
+    const excluded = new Set(parsed.exdates.map(exdate => eventInstant(exdate, resolver).getTime()));
+    const excludedDays = new Set(parsed.exdates.filter(exdate => exdate.dateOnly).map(exdate => formatISODate(exdate.date)));
+    const eventOverrides = overrides.get(uid);
+    const seen = new Set<number>();
+
+    for (const start of starts.sort((a, b) => a.getTime() - b.getTime())) {
+      const instant = resolver.toInstant(start, zone);
+      const time = instant.getTime();
+      if (seen.has(time) || excluded.has(time) || excludedDays.has(formatISODate(start))) continue;
+      seen.add(time);
+
+      // Overridden instances are added from their own VEVENT below
+      if (eventOverrides?.has(time)) continue;
+
+      events.push(toCalendarEvent(parsed, start, occurrenceId(uid, parsed.start, instant, resolver), resolver));
+    }
+  }
+
+  for (const [uid, byStart] of overrides) {
+    for (const [time, override] of byStart) {
+      if (override.cancelled) continue;
+      const id = occurrenceId(uid, override.recurrenceId!, new Date(time), resolver);
+      events.push(toCalendarEvent(override, override.start.date, id, resolver));
+    }
+  }
+
+  return events;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Find one event or occurrence by the ID parseICalEvents gave it. Occurrence
+// IDs end in their original start, so only the days around it are expanded.
+export function findCalendarEvent(icalData: string, id: string): CalendarEvent | null {
+  const stamp = id.match(/_(\d{8}(?:T\d{6}Z?)?)$/);
+  const originalStart = stamp ? parseICalDateValue(stamp[1]) : null;
+  const around = originalStart ? originalStart.date.getTime() : Date.now();
+
+  const events = parseICalEvents(
+    icalData,
+    new Date(around - 2 * DAY_MS).toISOString(),
+    new Date(around + 2 * DAY_MS).toISOString()
+  );
+  return events.find(event => event.id === id) ?? null;
+}
+
+// IANA zone a CalendarEvent time is written in, if it needs a VTIMEZONE
+function eventTimeZone(value: CalendarEvent['start']): string | null {
+  if (!value.dateTime || !value.timeZone || value.timeZone === 'UTC') return null;
+  return isValidTimeZone(value.timeZone) ? value.timeZone : null;
+}
+
+// CalendarEvent start/end as an iCal property value. Zoned times keep their
+// TZID and wall clock; other times with an offset are written in UTC, and
+// floating times stay floating.
+function formatICalEventTime(name: string, value: CalendarEvent['start']): string | null {
+  if (value.date) return `${name};VALUE=DATE:${value.date.replace(/-/g, '')}`;
+  if (!value.dateTime) return null;
+
+  const wallClock = value.dateTime.replace(/[-:]/g, '').slice(0, 15);
+  const timeZone = eventTimeZone(value);
+  if (timeZone) return `${name};TZID=${timeZone}:${wallClock}`;
+
+  if (/(Z|[+-]\d{2}:\d{2})$/.test(value.dateTime)) {
+    return `${name}:${formatICalStamp(new Date(value.dateTime), false, true)}`;
+  }
+  return `${name}:${wallClock}`;
+}
+
+// VEVENT content lines for one event. Each occurrence of a recurring event
+// becomes a standalone event, keyed by its occurrence ID.
+export function formatVEvent(event: CalendarEvent, stamp = new Date()): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.id}`,
+    `DTSTAMP:${formatICalStamp(stamp, false, true)}`,
+    formatICalEventTime('DTSTART', event.start),
+    event.end && formatICalEventTime('DTEND', event.end),
+    `SUMMARY:${escapeICalText(event.title)}`,
+    event.description && `DESCRIPTION:${escapeICalText(event.description)}`,
+    event.location && `LOCATION:${escapeICalText(event.location)}`,
+    event.categories?.length ? `CATEGORIES:${event.categories.map(escapeICalText).join(',')}` : null,
+    event.htmlLink && `URL:${event.htmlLink}`,
+    'END:VEVENT',
+  ];
+  return lines.filter((line): line is string => !!line);
+}
+
+// A complete iCalendar document for a list of events, with a VTIMEZONE for
+// every zone their times are written in
+export function formatCalendarFeed(
+  events: CalendarEvent[],
+  { name, timeZone }: { name?: string; timeZone?: string } = {}
+): string {
+  const stamp = new Date();
+  const zones = new Set<string>();
+  let first = Infinity;
+  let last = -Infinity;
+
+  for (const event of events) {
+    for (const value of [event.start, event.end]) {
+      const zone = eventTimeZone(value);
+      if (!zone) continue;
+      zones.add(zone);
+      const instant = new Date(value.dateTime!).getTime();
+      first = Math.min(first, instant);
+      last = Math.max(last, instant);
+    }
+  }
+
+  // Cover the events with a day to spare, so the observance in force at the
+  // first event is always included
+  const from = new Date(first - DAY_MS);
+  const to = new Date(last + DAY_MS);
+
+  const headers = ['METHOD:PUBLISH'];
+  if (name) headers.push(`X-WR-CALNAME:${escapeICalText(name)}`);
+  if (timeZone && isValidTimeZone(timeZone)) headers.push(`X-WR-TIMEZONE:${timeZone}`);
+
+  return formatICalendar(
+    [
+      ...[...zones].flatMap(zone => formatVTimeZone(zone, from, to)),
+      ...events.flatMap(event => formatVEvent(event, stamp)),
+    ],
+    headers
+  );
+}
+
+export function extractCalendarName(icalData: string): string | null {
+  const match = icalData.match(/X-WR-CALNAME:(.+)/);
+  return match ? unescapeICalText(match[1].trim()) : null;
+}
+
+export function extractTimeZone(icalData: string): string | null {
+  const match = icalData.match(/X-WR-TIMEZONE:(.+)/);
+  return match ? match[1].trim() : null;
+}
+
+export function filterEventsByTimeRange(events: CalendarEvent[], timeMin: string, timeMax: string): CalendarEvent[] {
+  const minDate = new Date(timeMin);
+  const maxDate = new Date(timeMax);
+
+  return events.filter(event => {
+    const eventStart = event.start.dateTime 
+      ? new Date(event.start.dateTime)
+      : event.start.date 
+        ? new Date(event.start.date)
+        : null;
+
+    if (!eventStart) return false;
+
+    // Events overlapping the range count, including ones already in
+    // progress; events without a length count when they start in it
+    const endValue = event.end.dateTime || event.end.date;
+    const eventEnd = endValue ? new Date(endValue) : eventStart;
+    if (eventEnd <= eventStart) return eventStart >= minDate && eventStart < maxDate;
+    return eventStart < maxDate && eventEnd > minDate;
+  }).sort((a, b) => {
+    const aStart = a.start.dateTime || a.start.date || '';
+    const bStart = b.start.dateTime || b.start.date || '';
+    return new Date(aStart).getTime() - new Date(bStart).getTime();
+  });
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { EventFilterRule, isSafeFilterPattern } from '../types';
+import { CalendarEvent } from './events';
+import { applyEventFilters } from './filters';
+
+function event(title: string, fields: Partial<CalendarEvent> = {}): CalendarEvent {
+  return {
+    id: title,
+    title,
+    start: { dateTime: '2026-01-05T09:00:00Z' },
+    end: { dateTime: '2026-01-05T10:00:00Z' },
+    allDay: false,
+    ...fields,
+  };
+}
+
+function rule(fields: Partial<EventFilterRule>): EventFilterRule {
+  return { id: 'r', action: 'hide', field: 'title', match: 'contains', value: '', ...fields };
+}
+
+const events = [
+  event('Team standup', { location: 'Room 4', categories: ['Work'] }),
+  event('Lunch with Sam', { categories: ['Personal'] }),
+  event('Public holiday', { allDay: true, start: { date: '2026-01-06' }, end: { date: '2026-01-07' } }),
+];
+
+const titles = (filtered: CalendarEvent[]) => filtered.map(({ title }) => title);
+
+describe('isSafeFilterPattern', () => {
+  it('accepts ordinary patterns', () => {
+    for (const pattern of ['^standup$', 'lunch|dinner', '(mon|tues)day', '\\d{2}:\\d{2}', '[(+)]+', 'a+b*']) {
+      expect(isSafeFilterPattern(pattern), pattern).toBe(true);
+    }
+  });
+
+  it('rejects nested repetition and backreferences', () => {
+    for (const pattern of ['(a+)+$', '(a*)*', '((ab)+c)+', '(x+x+){2,}', '(a)\\1', '(?<n>a)\\k<n>']) {
+      expect(isSafeFilterPattern(pattern), pattern).toBe(false);
+    }
+  });
+});
+
+describe('applyEventFilters', () => {
+  it('returns the events unchanged without rules', () => {
+    expect(applyEventFilters(events, [])).toBe(events);
+  });
+
+  it('hides events containing a value, ignoring case', () => {
+    expect(titles(applyEventFilters(events, [rule({ value: 'STANDUP' })]))).toEqual(['Lunch with Sam', 'Public holiday']);
+  });
+
+  it('shows only events matching a show rule, less those hidden', () => {
+    const filtered = applyEventFilters(events, [
+      rule({ action: 'show', field: 'category', value: 'work' }),
+      rule({ action: 'show', field: 'allDay' }),
+      rule({ field: 'location', value: 'room 4' }),
+    ]);
+    expect(titles(filtered)).toEqual(['Public holiday']);
+  });
+
+  it('matches regex rules', () => {
+    expect(titles(applyEventFilters(events, [rule({ action: 'show', match: 'regex', value: '^(team|public) ' })])))
+      .toEqual(['Team standup', 'Public holiday']);
+  });
+
+  it('ignores malformed and unsafe regexes', () => {
+    for (const value of ['(unclosed', '(a+)+$']) {
+      expect(applyEventFilters(events, [rule({ match: 'regex', value })]), value).toBe(events);
+    }
+  });
+
+  it('gives up on a regex that runs too long', () => {
+    // Passes the static check, but backtracks polynomially on a long title;
+    // once it times out the rule is ignored rather than hiding everything
+    const slow = [event(`${'a'.repeat(30000)}!`), ...events];
+    expect(titles(applyEventFilters(slow, [rule({ action: 'show', match: 'regex', value: 'a*a*a*a*a*$x' })])))
+      .toHaveLength(slow.length);
+  });
+});
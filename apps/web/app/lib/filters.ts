@@ -0,0 +1,83 @@
+// Server-side evaluation of the event filter rules in CalendarConfig
+
+import { runInNewContext } from 'vm';
+import { EventFilterRule, isSafeFilterPattern } from '../types';
+import { CalendarEvent } from './events';
+
+type EventPredicate = (event: CalendarEvent) => boolean;
+
+// Time one regex rule gets to run against all the events
+const REGEX_TIMEOUT_MS = 50;
+
+// The event's text a rule compares against
+function fieldValues(field: 'title' | 'location' | 'category', event: CalendarEvent): string[] {
+  switch (field) {
+    case 'title':
+      return [event.title];
+    case 'location':
+      return event.location ? [event.location] : [];
+    case 'category':
+      return event.categories ?? [];
+  }
+}
+
+// The texts a regex matches, or null when it doesn't compile or runs out of
+// time. Patterns come from the URL, so they run in their own context with a
+// time limit rather than on the event loop unguarded.
+function matchPattern(source: string, texts: string[]): Set<string> | null {
+  try {
+    const matches = runInNewContext(
+      'const pattern = new RegExp(source, "i"); texts.map(text => pattern.test(text))',
+      { source, texts },
+      { timeout: REGEX_TIMEOUT_MS }
+    ) as boolean[];
+    return new Set(texts.filter((_, idx) => matches[idx]));
+  } catch {
+    return null;
+  }
+}
+
+// Compile a rule into a predicate for these events. Rules that can't match
+// anything, such as an empty value or a malformed, unsafe or too slow regex,
+// compile to null and are ignored.
+function compileRule(rule: EventFilterRule, events: CalendarEvent[]): EventPredicate | null {
+  if (rule.field === 'allDay') return event => event.allDay;
+  if (rule.field === 'timed') return event => !event.allDay;
+
+  const field = rule.field;
+  const value = rule.value.trim();
+  if (!value) return null;
+
+  let test: (text: string) => boolean;
+  if (rule.match === 'regex') {
+    if (!isSafeFilterPattern(value)) return null;
+    const texts = [...new Set(events.flatMap(event => fieldValues(field, event)))];
+    const matched = matchPattern(value, texts);
+    if (!matched) return null;
+    test = text => matched.has(text);
+  } else {
+    const needle = value.toLowerCase();
+    test = text => text.toLowerCase().includes(needle);
+  }
+
+  return event => fieldValues(field, event).some(test);
+}
+
+// Drop the events hidden by the rules: anything matching a "hide" rule, and
+// when there are "show" rules, anything matching none of them
+export function applyEventFilters(events: CalendarEvent[], rules: EventFilterRule[]): CalendarEvent[] {
+  const show: EventPredicate[] = [];
+  const hide: EventPredicate[] = [];
+
+  for (const rule of rules) {
+    const predicate = compileRule(rule, events);
+    if (predicate) (rule.action === 'show' ? show : hide).push(predicate);
+  }
+
+  if (show.length === 0 && hide.length === 0) return events;
+
+  return events.filter(event =>
+    (show.length === 0 || show.some(matches => matches(event))) &&
+    !hide.some(matches => matches(event))
+  );
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import {
+  escapeICalText,
+  foldICalLine,
+  formatICalendar,
+  parseICalProperty,
+  parseICalTextList,
+  unescapeICalText,
+  unfoldICalLines,
+} from './ical';
+
+const octets = (text: string) => Buffer.byteLength(text, 'utf8');
+
+describe('escapeICalText', () => {
+  it('escapes backslashes, separators and newlines', () => {
+    expect(escapeICalText('a\\b; c, d\r\ne\nf')).toBe('a\\\\b\\; c\\, d\\ne\\nf');
+  });
+
+  it('round-trips through unescapeICalText', () => {
+    const text = 'Room 4; floor 2, east wing\nBring a C:\\ drive';
+    expect(unescapeICalText(escapeICalText(text))).toBe(text);
+  });
+
+  it('keeps escaped commas inside list items', () => {
+    expect(parseICalTextList(['Work', 'Smith, J.'].map(escapeICalText).join(','))).toEqual(['Work', 'Smith, J.']);
+  });
+});
+
+describe('foldICalLine', () => {
+  it('leaves short lines alone', () => {
+    expect(foldICalLine('SUMMARY:Standup')).toBe('SUMMARY:Standup');
+  });
+
+  it('folds at 75 octets', () => {
+    const line = `DESCRIPTION:${'x'.repeat(200)}`;
+    const folded = foldICalLine(line).split('\r\n');
+
+    expect(folded.length).toBe(3);
+    expect(folded.every(part => octets(part) <= 75)).toBe(true);
+    expect(folded.slice(1).every(part => part.startsWith(' '))).toBe(true);
+    expect(unfoldICalLines(folded.join('\r\n'))).toEqual([line]);
+  });
+
+  it("doesn't split multi-byte characters", () => {
+    const line = `SUMMARY:${'é😀'.repeat(40)}`;
+    const folded = foldICalLine(line).split('\r\n');
+
+    expect(folded.every(part => octets(part) <= 75)).toBe(true);
+    expect(folded.join('').includes('\uFFFD')).toBe(false);
+    expect(unfoldICalLines(folded.join('\r\n'))).toEqual([line]);
+  });
+});
+
+describe('formatICalendar', () => {
+  it('wraps the lines in a folded VCALENDAR with CRLF endings', () => {
+    const summary = `SUMMARY:${escapeICalText('Long, long; '.repeat(10))}`;
+    const document = formatICalendar(['BEGIN:VEVENT', summary, 'END:VEVENT'], ['METHOD:PUBLISH']);
+
+    expect(document.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(document.replace(/\r\n/g, '').includes('\n')).toBe(false);
+
+    const lines = unfoldICalLines(document);
+    expect(lines.slice(0, 2)).toEqual(['BEGIN:VCALENDAR', 'VERSION:2.0']);
+    expect(lines).toContain('METHOD:PUBLISH');
+    expect(unescapeICalText(parseICalProperty(lines.find(line => line.startsWith('SUMMARY'))!)!.value))
+      .toBe('Long, long; '.repeat(10));
+  });
+});
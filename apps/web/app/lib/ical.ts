@@ -0,0 +1,210 @@
+// Low-level iCalendar (RFC 5545) helpers shared by the calendar routes
+
+export interface ICalProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// A DATE or DATE-TIME value. `date` holds the wall-clock time in its UTC
+// fields so date arithmetic doesn't depend on the server's timezone.
+export interface ICalDateValue {
+  date: Date;
+  dateOnly: boolean;
+  utc: boolean;
+  tzid?: string;
+}
+
+// Split into lines and join continuations (lines starting with space or tab)
+export function unfoldICalLines(icalData: string): string[] {
+  const lines: string[] = [];
+
+  for (const line of icalData.split(/\r?\n/)) {
+    if ((line.startsWith(' ') || line.startsWith('\t')) && lines.length > 0) {
+      lines[lines.length - 1] += line.substring(1);
+    } else if (line) {
+      lines.push(line);
+    }
+  }
+
+  return lines;
+}
+
+// Parse `NAME;PARAM=value;PARAM="quoted:value":VALUE`
+export function parseICalProperty(line: string): ICalProperty | null {
+  let inQuotes = false;
+  let valueIndex = -1;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (char === ':' && !inQuotes) {
+      valueIndex = i;
+      break;
+    }
+  }
+
+  if (valueIndex <= 0) return null;
+
+  const keyParts = splitOutsideQuotes(line.substring(0, valueIndex), ';');
+  const params: Record<string, string> = {};
+
+  for (const part of keyParts.slice(1)) {
+    const equalsIndex = part.indexOf('=');
+    if (equalsIndex > 0) {
+      params[part.substring(0, equalsIndex).toUpperCase()] = part.substring(equalsIndex + 1).replace(/"/g, '');
+    }
+  }
+
+  return {
+    name: keyParts[0].toUpperCase(),
+    params,
+    value: line.substring(valueIndex + 1),
+  };
+}
+
+function splitOutsideQuotes(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (const char of text) {
+    if (char === '"') inQuotes = !inQuotes;
+    if (char === separator && !inQuotes) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return parts;
+}
+
+export function unescapeICalText(text: string): string {
+  return text
+    .replace(/\\[nN]/g, '\n')
+    .replace(/\\,/g, ',')
+    .replace(/\\;/g, ';')
+    .replace(/\\\\/g, '\\');
+}
+
+// Split a multi-valued TEXT property such as CATEGORIES on its unescaped commas
+export function parseICalTextList(value: string): string[] {
+  return (value.match(/(?:\\.|[^,\\])+/g) ?? [])
+    .map(item => unescapeICalText(item).trim())
+    .filter(Boolean);
+}
+
+// Format: YYYYMMDD or YYYYMMDDTHHMMSS[Z]
+export function parseICalDateValue(value: string, params: Record<string, string> = {}): ICalDateValue | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  const dateOnly = params.VALUE === 'DATE' || hours === undefined;
+
+  return {
+    date: new Date(Date.UTC(
+      Number(year),
+      Number(month) - 1,
+      Number(day),
+      dateOnly ? 0 : Number(hours),
+      dateOnly ? 0 : Number(minutes),
+      dateOnly ? 0 : Number(seconds),
+    )),
+    dateOnly,
+    utc: !dateOnly && utc === 'Z',
+    tzid: !dateOnly && utc !== 'Z' ? params.TZID : undefined,
+  };
+}
+
+// Parse a comma separated list of dates, as used by EXDATE and RDATE.
+// RDATE periods (`start/end`) are reduced to their start.
+export function parseICalDateList(value: string, params: Record<string, string> = {}): ICalDateValue[] {
+  return value
+    .split(',')
+    .map(part => parseICalDateValue(part.split('/')[0], params))
+    .filter((date): date is ICalDateValue => date !== null);
+}
+
+// Format: [+-]P[nW][nD][T[nH][nM][nS]] -> milliseconds
+export function parseICalDuration(value: string): number | null {
+  const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const totalSeconds =
+    Number(weeks || 0) * 7 * 86400 +
+    Number(days || 0) * 86400 +
+    Number(hours || 0) * 3600 +
+    Number(minutes || 0) * 60 +
+    Number(seconds || 0);
+
+  return (sign === '-' ? -1 : 1) * totalSeconds * 1000;
+}
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, '0');
+}
+
+// Compact iCal form, e.g. 20261020 or 20261020T090000Z
+export function formatICalStamp(date: Date, dateOnly: boolean, utc: boolean): string {
+  const day = `${pad(date.getUTCFullYear(), 4)}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}`;
+  if (dateOnly) return day;
+  return `${day}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}${utc ? 'Z' : ''}`;
+}
+
+// YYYY-MM-DD
+export function formatISODate(date: Date): string {
+  return `${pad(date.getUTCFullYear(), 4)}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+}
+
+// YYYY-MM-DDTHH:MM:SS[Z]
+export function formatISODateTime(date: Date, utc: boolean): string {
+  const time = `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}`;
+  return `${formatISODate(date)}T${time}${utc ? 'Z' : ''}`;
+}
+
+// Escape a TEXT value: backslashes, semicolons, commas and newlines
+export function escapeICalText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Fold a content line at 75 octets without splitting a UTF-8 character
+export function foldICalLine(line: string): string {
+  let folded = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const codePoint = char.codePointAt(0)!;
+    const size = codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4;
+    if (octets + size > 75) {
+      folded += '\r\n ';
+      octets = 1;
+    }
+    folded += char;
+    octets += size;
+  }
+
+  return folded;
+}
+
+// A VCALENDAR around the given component lines, folded, with CRLF line endings
+export function formatICalendar(lines: string[], headers: string[] = []): string {
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Simply Calendar Embeds//EN',
+    'CALSCALE:GREGORIAN',
+    ...headers,
+    ...lines,
+    'END:VCALENDAR',
+  ].map(foldICalLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,132 @@
+// oEmbed (https://oembed.com) for embed links, so CMSes that auto-embed
+// pasted URLs, such as WordPress, Ghost and Notion, turn an /embed or
+// /embed/<id> link into the calendar's iframe. /api/oembed answers with a
+// `rich` response; embed pages point to it with a discovery <link>.
+
+import type { Metadata } from 'next';
+import { headers } from 'next/headers';
+import { CalendarConfig, defaultConfig, queryStringToConfig } from '../types';
+import { getEmbed } from './embeds';
+
+export const OEMBED_PROVIDER_NAME = 'Simply Calendar';
+
+// Used when the embed's width or height isn't in px, e.g. '100%'
+const DEFAULT_WIDTH = 800;
+const DEFAULT_HEIGHT = 600;
+
+export interface OEmbedResponse {
+  type: 'rich';
+  version: '1.0';
+  title?: string;
+  provider_name: string;
+  provider_url: string;
+  cache_age: number;
+  html: string;
+  width: number;
+  height: number;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// 600 for '600px' or '600', null for other units
+function pixels(value: string): number | null {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)(px)?$/);
+  return match ? Math.round(Number(match[1])) : null;
+}
+
+// The config an embed link shows: read from the query for /embed, or the
+// saved embed's for /embed/<id>. Null for other links, missing embeds and
+// ids that aren't validly escaped.
+export async function embedConfigFromUrl(url: URL): Promise<CalendarConfig | null> {
+  if (url.pathname === '/embed' || url.pathname === '/embed/') {
+    return { ...defaultConfig, ...queryStringToConfig(url.searchParams) };
+  }
+
+  const saved = url.pathname.match(/^\/embed\/([^/]+)\/?$/);
+  if (!saved) return null;
+  let id: string;
+  try {
+    id = decodeURIComponent(saved[1]);
+  } catch {
+    return null;
+  }
+  const embed = await getEmbed(id);
+  return embed?.config ?? null;
+}
+
+// Response for an embed link. The iframe keeps the embed's own width and
+// height when they're in px, within maxWidth and maxHeight; a relative
+// width such as '100%' stays fluid.
+export function oembedResponse(
+  embedUrl: string,
+  config: CalendarConfig,
+  { origin, title, maxWidth, maxHeight }: { origin: string; title?: string; maxWidth?: number; maxHeight?: number }
+): OEmbedResponse {
+  const limit = (value?: number) => value && value > 0 ? Math.floor(value) : Infinity;
+  const fixedWidth = pixels(config.width);
+  const width = Math.min(fixedWidth ?? DEFAULT_WIDTH, limit(maxWidth));
+  const height = Math.min(pixels(config.height) ?? DEFAULT_HEIGHT, limit(maxHeight));
+  const cssWidth = fixedWidth === null && /^\d+(\.\d+)?%$/.test(config.width.trim()) ? config.width.trim() : `${width}px`;
+
+  const html = `<iframe src="${escapeHtml(embedUrl)}" width="${width}" height="${height}" ` +
+    `style="border: none; width: ${cssWidth}; max-width: 100%; height: ${height}px;" ` +
+    `loading="lazy" allow="clipboard-write" title="${escapeHtml(title || 'Calendar')}"></iframe>`;
+
+  return {
+    type: 'rich',
+    version: '1.0',
+    ...(title ? { title } : {}),
+    provider_name: OEMBED_PROVIDER_NAME,
+    provider_url: `${origin}/`,
+    cache_age: 3600,
+    html,
+    width,
+    height,
+  };
+}
+
+// Origin of the current request as the visitor sees it. PUBLIC_ORIGIN, when
+// set, wins; X-Forwarded-Host and -Proto are only read when TRUST_PROXY=true
+// says a proxy sets them, as clients can send them too. Null when the host
+// isn't a valid one.
+export async function requestOrigin(): Promise<string | null> {
+  const configured = process.env.PUBLIC_ORIGIN;
+  if (configured) return parseOrigin(configured);
+
+  const list = await headers();
+  const trustProxy = process.env.TRUST_PROXY === 'true';
+  const forwarded = (name: string) => trustProxy ? list.get(name)?.split(',')[0].trim() : undefined;
+  const host = forwarded('x-forwarded-host') || list.get('host') || 'localhost';
+  const protocol = forwarded('x-forwarded-proto')
+    || (/^(localhost|127\.0\.0\.1)(:|$)/.test(host) ? 'http' : 'https');
+  return parseOrigin(`${protocol}://${host}`);
+}
+
+function parseOrigin(input: string): string | null {
+  try {
+    const url = new URL(input);
+    return /^https?:$/.test(url.protocol) && url.host ? url.origin : null;
+  } catch {
+    return null;
+  }
+}
+
+// Page metadata with the oEmbed discovery link for the embed at `path`
+// (with its query)
+export async function oembedMetadata(path: string): Promise<Metadata> {
+  const origin = await requestOrigin();
+  if (!origin) return {};
+  const endpoint = `${origin}/api/oembed?${new URLSearchParams({ url: `${origin}${path}`, format: 'json' })}`;
+
+  return {
+    alternates: {
+      types: { 'application/json+oembed': [{ url: endpoint, title: OEMBED_PROVIDER_NAME }] },
+    },
+  };
+}
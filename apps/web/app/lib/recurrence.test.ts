@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { createExpansionBudget, expandRecurrence, parseRecurrenceRule, RecurrenceRule } from './recurrence';
+
+// Wall-clock times, stored in the UTC fields like everywhere in lib/ical
+const at = (value: string) => new Date(`${value}Z`);
+const day = (date: Date) => date.toISOString().slice(0, 10);
+
+function rule(value: string): RecurrenceRule {
+  const parsed = parseRecurrenceRule(value);
+  if (!parsed) throw new Error(`Invalid rule ${value}`);
+  return parsed;
+}
+
+function expand(dtstart: string, value: string, from: string, to: string): string[] {
+  return expandRecurrence(at(dtstart), rule(value), at(from), at(to)).map(day);
+}
+
+describe('parseRecurrenceRule', () => {
+  it('reads the parts of a rule', () => {
+    expect(rule('FREQ=MONTHLY;INTERVAL=2;BYDAY=2MO,-1FR;WKST=SU')).toMatchObject({
+      freq: 'MONTHLY',
+      interval: 2,
+      byDay: [{ weekday: 1, ordinal: 2 }, { weekday: 5, ordinal: -1 }],
+      weekStart: 0,
+    });
+  });
+
+  it('rejects a rule without a frequency', () => {
+    expect(parseRecurrenceRule('COUNT=3')).toBeNull();
+  });
+});
+
+describe('expandRecurrence', () => {
+  it('stops after COUNT occurrences', () => {
+    expect(expand('2026-01-01T09:00:00', 'FREQ=DAILY;COUNT=3', '2026-01-01T00:00:00', '2026-12-31T00:00:00'))
+      .toEqual(['2026-01-01', '2026-01-02', '2026-01-03']);
+  });
+
+  it('counts occurrences before the range towards COUNT', () => {
+    expect(expand('2026-01-01T09:00:00', 'FREQ=DAILY;COUNT=10', '2026-01-08T00:00:00', '2026-12-31T00:00:00'))
+      .toEqual(['2026-01-08', '2026-01-09', '2026-01-10']);
+  });
+
+  it('includes the whole day of a DATE UNTIL', () => {
+    expect(expand('2026-01-01T09:00:00', 'FREQ=WEEKLY;UNTIL=20260122', '2026-01-01T00:00:00', '2026-12-31T00:00:00'))
+      .toEqual(['2026-01-01', '2026-01-08', '2026-01-15', '2026-01-22']);
+  });
+
+  it('picks the last weekday of each month with BYSETPOS', () => {
+    expect(expand(
+      '2026-01-30T09:00:00',
+      'FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1;COUNT=3',
+      '2026-01-01T00:00:00',
+      '2026-12-31T00:00:00'
+    )).toEqual(['2026-01-30', '2026-02-27', '2026-03-31']);
+  });
+
+  it('counts negative BYDAY ordinals from the end of the month', () => {
+    expect(expand('2026-01-30T09:00:00', 'FREQ=MONTHLY;BYDAY=-1FR;COUNT=4', '2026-01-01T00:00:00', '2026-12-31T00:00:00'))
+      .toEqual(['2026-01-30', '2026-02-27', '2026-03-27', '2026-04-24']);
+  });
+
+  it('counts negative BYDAY ordinals from the end of the year', () => {
+    expect(expand('2026-12-28T09:00:00', 'FREQ=YEARLY;BYDAY=-1MO;COUNT=3', '2026-01-01T00:00:00', '2030-01-01T00:00:00'))
+      .toEqual(['2026-12-28', '2027-12-27', '2028-12-25']);
+  });
+
+  it('jumps ahead to the range for rules without COUNT', () => {
+    const occurrences = expand('2000-01-03T09:00:00', 'FREQ=WEEKLY', '2026-01-01T00:00:00', '2026-01-31T00:00:00');
+    expect(occurrences).toEqual(['2026-01-05', '2026-01-12', '2026-01-19', '2026-01-26']);
+  });
+
+  it('gives up on a rule that never matches', () => {
+    expect(expand('2026-02-28T09:00:00', 'FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=30', '2026-01-01T00:00:00', '2100-01-01T00:00:00'))
+      .toEqual(['2026-02-28']);
+  });
+
+  it('takes its work from the budget it is given', () => {
+    const budget = createExpansionBudget();
+    const before = budget.remaining;
+    expandRecurrence(at('2026-01-01T09:00:00'), rule('FREQ=DAILY'), at('2026-01-01T00:00:00'), at('2026-02-01T00:00:00'), budget);
+    expect(budget.remaining).toBeLessThan(before);
+
+    budget.remaining = 0;
+    const starved = expandRecurrence(at('2026-01-01T09:00:00'), rule('FREQ=DAILY'), at('2026-01-01T00:00:00'), at('2026-02-01T00:00:00'), budget);
+    expect(starved.map(day)).toEqual(['2026-01-01']);
+  });
+});
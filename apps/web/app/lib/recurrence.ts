@@ -0,0 +1,401 @@
+// Recurrence rule expansion (RFC 5545 section 3.3.10)
+//
+// Like the rest of lib/ical, every Date here is a wall-clock time stored in
+// the UTC fields. Converting occurrences to real instants is up to the caller.
+
+import { ICalDateValue, parseICalDateValue } from './ical';
+
+export type Frequency = 'SECONDLY' | 'MINUTELY' | 'HOURLY' | 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface WeekdayNum {
+  weekday: number;   // 0 = Sunday
+  ordinal?: number;  // e.g. 2 for the second Monday, -1 for the last
+}
+
+export interface RecurrenceRule {
+  freq: Frequency;
+  interval: number;
+  count?: number;
+  until?: ICalDateValue;
+  bySecond?: number[];
+  byMinute?: number[];
+  byHour?: number[];
+  byDay?: WeekdayNum[];
+  byMonthDay?: number[];
+  byYearDay?: number[];
+  byWeekNo?: number[];
+  byMonth?: number[];
+  bySetPos?: number[];
+  weekStart: number;
+}
+
+// Ordered from finest to coarsest
+const FREQUENCIES: Frequency[] = ['SECONDLY', 'MINUTELY', 'HOURLY', 'DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Guards against rules that never produce an instance (e.g. BYMONTHDAY=30;BYMONTH=2)
+const MAX_PERIODS = 50000;
+const MAX_OCCURRENCES = 5000;
+
+// Work is counted in candidate days checked plus times generated. One rule
+// gets at most MAX_RULE_STEPS, which also caps the walk from DTSTART that
+// COUNT rules need; every rule in one feed shares FEED_STEPS.
+const MAX_RULE_STEPS = 100_000;
+const FEED_STEPS = 2_000_000;
+
+// Steps left for expanding the rules of one feed
+export interface ExpansionBudget {
+  remaining: number;
+}
+
+export function createExpansionBudget(): ExpansionBudget {
+  return { remaining: FEED_STEPS };
+}
+
+function parseNumberList(value: string): number[] {
+  return value
+    .split(',')
+    .map(Number)
+    .filter(n => Number.isInteger(n));
+}
+
+export function parseRecurrenceRule(value: string): RecurrenceRule | null {
+  const parts: Record<string, string> = {};
+  for (const part of value.split(';')) {
+    const [key, partValue] = part.split('=');
+    if (key && partValue) parts[key.toUpperCase()] = partValue.toUpperCase();
+  }
+
+  const freq = parts.FREQ as Frequency;
+  if (!FREQUENCIES.includes(freq)) return null;
+
+  const rule: RecurrenceRule = {
+    freq,
+    interval: Math.max(1, Number(parts.INTERVAL) || 1),
+    weekStart: parts.WKST ? Math.max(0, WEEKDAYS.indexOf(parts.WKST)) : 1,
+  };
+
+  if (parts.COUNT) rule.count = Math.max(0, Number(parts.COUNT) || 0);
+  if (parts.UNTIL) rule.until = parseICalDateValue(parts.UNTIL) ?? undefined;
+  if (parts.BYSECOND) rule.bySecond = parseNumberList(parts.BYSECOND);
+  if (parts.BYMINUTE) rule.byMinute = parseNumberList(parts.BYMINUTE);
+  if (parts.BYHOUR) rule.byHour = parseNumberList(parts.BYHOUR);
+  if (parts.BYMONTHDAY) rule.byMonthDay = parseNumberList(parts.BYMONTHDAY);
+  if (parts.BYYEARDAY) rule.byYearDay = parseNumberList(parts.BYYEARDAY);
+  if (parts.BYWEEKNO) rule.byWeekNo = parseNumberList(parts.BYWEEKNO);
+  if (parts.BYMONTH) rule.byMonth = parseNumberList(parts.BYMONTH);
+  if (parts.BYSETPOS) rule.bySetPos = parseNumberList(parts.BYSETPOS);
+
+  if (parts.BYDAY) {
+    rule.byDay = parts.BYDAY.split(',').flatMap(day => {
+      const match = day.trim().match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+      if (!match) return [];
+      return [{
+        weekday: WEEKDAYS.indexOf(match[2]),
+        ordinal: match[1] ? Number(match[1]) : undefined,
+      }];
+    });
+  }
+
+  return rule;
+}
+
+function isLeapYear(year: number): boolean {
+  return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+function dayOfYear(date: Date): number {
+  return Math.round((date.getTime() - Date.UTC(date.getUTCFullYear(), 0, 1)) / DAY_MS) + 1;
+}
+
+// Start of week 1: the first week (starting on weekStart) with at least four days in the year
+function firstWeekStart(year: number, weekStart: number): number {
+  const jan1 = Date.UTC(year, 0, 1);
+  const offset = (weekStart - new Date(jan1).getUTCDay() + 7) % 7;
+  return jan1 + (offset >= 4 ? offset - 7 : offset) * DAY_MS;
+}
+
+function weekNumber(date: Date, weekStart: number): { week: number; weeksInYear: number } {
+  let year = date.getUTCFullYear();
+  if (date.getTime() < firstWeekStart(year, weekStart)) {
+    year--;
+  } else if (date.getTime() >= firstWeekStart(year + 1, weekStart)) {
+    year++;
+  }
+
+  const start = firstWeekStart(year, weekStart);
+  return {
+    week: Math.floor((date.getTime() - start) / (7 * DAY_MS)) + 1,
+    weeksInYear: Math.round((firstWeekStart(year + 1, weekStart) - start) / (7 * DAY_MS)),
+  };
+}
+
+// Match a positive or negative (counted from the end) index against a list
+function matchesIndex(values: number[], index: number, total: number): boolean {
+  return values.some(value => value === index || value === index - total - 1);
+}
+
+function matchesDay(day: Date, rule: RecurrenceRule): boolean {
+  const year = day.getUTCFullYear();
+  const month = day.getUTCMonth();
+  const date = day.getUTCDate();
+
+  if (rule.byMonth && !rule.byMonth.includes(month + 1)) return false;
+
+  if (rule.byWeekNo) {
+    const { week, weeksInYear } = weekNumber(day, rule.weekStart);
+    if (!matchesIndex(rule.byWeekNo, week, weeksInYear)) return false;
+  }
+
+  if (rule.byYearDay && !matchesIndex(rule.byYearDay, dayOfYear(day), isLeapYear(year) ? 366 : 365)) {
+    return false;
+  }
+
+  if (rule.byMonthDay && !matchesIndex(rule.byMonthDay, date, daysInMonth(year, month))) return false;
+
+  if (rule.byDay) {
+    // Ordinals count within the month for MONTHLY rules (and YEARLY rules
+    // narrowed by BYMONTH), within the year for other YEARLY rules, and are
+    // meaningless for anything finer.
+    const ordinalScope = rule.freq === 'MONTHLY' || (rule.freq === 'YEARLY' && rule.byMonth)
+      ? 'month'
+      : rule.freq === 'YEARLY' ? 'year' : null;
+
+    const matched = rule.byDay.some(({ weekday, ordinal }) => {
+      if (day.getUTCDay() !== weekday) return false;
+      if (!ordinal || !ordinalScope) return true;
+
+      const index = ordinalScope === 'month' ? date : dayOfYear(day);
+      const total = ordinalScope === 'month' ? daysInMonth(year, month) : isLeapYear(year) ? 366 : 365;
+      const position = Math.ceil(index / 7);
+      const positionFromEnd = -Math.ceil((total - index + 1) / 7);
+      return ordinal === position || ordinal === positionFromEnd;
+    });
+
+    if (!matched) return false;
+  }
+
+  return true;
+}
+
+// Fill in the implicit parts of a rule from DTSTART (e.g. FREQ=MONTHLY repeats on DTSTART's day)
+function withDefaults(rule: RecurrenceRule, dtstart: Date): RecurrenceRule {
+  if (rule.byWeekNo || rule.byYearDay || rule.byMonthDay || rule.byDay) return rule;
+
+  switch (rule.freq) {
+    case 'YEARLY':
+      return {
+        ...rule,
+        byMonth: rule.byMonth ?? [dtstart.getUTCMonth() + 1],
+        byMonthDay: [dtstart.getUTCDate()],
+      };
+    case 'MONTHLY':
+      return { ...rule, byMonthDay: [dtstart.getUTCDate()] };
+    case 'WEEKLY':
+      return { ...rule, byDay: [{ weekday: dtstart.getUTCDay() }] };
+    default:
+      return rule;
+  }
+}
+
+function startOfPeriod(date: Date, freq: Frequency, weekStart: number): Date {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  const day = date.getUTCDate();
+
+  switch (freq) {
+    case 'YEARLY':
+      return new Date(Date.UTC(year, 0, 1));
+    case 'MONTHLY':
+      return new Date(Date.UTC(year, month, 1));
+    case 'WEEKLY':
+      return new Date(Date.UTC(year, month, day - ((date.getUTCDay() - weekStart + 7) % 7)));
+    case 'DAILY':
+      return new Date(Date.UTC(year, month, day));
+    case 'HOURLY':
+      return new Date(Date.UTC(year, month, day, date.getUTCHours()));
+    case 'MINUTELY':
+      return new Date(Date.UTC(year, month, day, date.getUTCHours(), date.getUTCMinutes()));
+    case 'SECONDLY':
+      return new Date(Math.floor(date.getTime() / 1000) * 1000);
+  }
+}
+
+function addPeriods(period: Date, freq: Frequency, amount: number): Date {
+  const next = new Date(period);
+
+  switch (freq) {
+    case 'YEARLY':
+      next.setUTCFullYear(next.getUTCFullYear() + amount);
+      break;
+    case 'MONTHLY':
+      next.setUTCMonth(next.getUTCMonth() + amount);
+      break;
+    case 'WEEKLY':
+      next.setUTCDate(next.getUTCDate() + amount * 7);
+      break;
+    case 'DAILY':
+      next.setUTCDate(next.getUTCDate() + amount);
+      break;
+    case 'HOURLY':
+      next.setUTCHours(next.getUTCHours() + amount);
+      break;
+    case 'MINUTELY':
+      next.setUTCMinutes(next.getUTCMinutes() + amount);
+      break;
+    case 'SECONDLY':
+      next.setUTCSeconds(next.getUTCSeconds() + amount);
+      break;
+  }
+
+  return next;
+}
+
+// Number of whole periods between two period starts
+function periodsBetween(from: Date, to: Date, freq: Frequency): number {
+  const months = (to.getUTCFullYear() - from.getUTCFullYear()) * 12 + to.getUTCMonth() - from.getUTCMonth();
+  const ms = to.getTime() - from.getTime();
+
+  switch (freq) {
+    case 'YEARLY': return Math.floor(months / 12);
+    case 'MONTHLY': return months;
+    case 'WEEKLY': return Math.floor(ms / (7 * DAY_MS));
+    case 'DAILY': return Math.floor(ms / DAY_MS);
+    case 'HOURLY': return Math.floor(ms / 3600000);
+    case 'MINUTELY': return Math.floor(ms / 60000);
+    case 'SECONDLY': return Math.floor(ms / 1000);
+  }
+}
+
+function daysInPeriod(period: Date, freq: Frequency): Date[] {
+  const year = period.getUTCFullYear();
+  const month = period.getUTCMonth();
+  const day = period.getUTCDate();
+
+  const length =
+    freq === 'YEARLY' ? (isLeapYear(year) ? 366 : 365) :
+    freq === 'MONTHLY' ? daysInMonth(year, month) :
+    freq === 'WEEKLY' ? 7 :
+    1;
+
+  return Array.from({ length }, (_, i) => new Date(Date.UTC(year, month, day + i)));
+}
+
+// BYHOUR/BYMINUTE/BYSECOND expand when finer than FREQ and limit otherwise
+function timeValues(
+  freq: Frequency,
+  unit: Frequency,
+  values: number[] | undefined,
+  periodValue: number,
+  startValue: number,
+): number[] {
+  if (FREQUENCIES.indexOf(freq) > FREQUENCIES.indexOf(unit)) {
+    return values ? [...values].sort((a, b) => a - b) : [startValue];
+  }
+  return !values || values.includes(periodValue) ? [periodValue] : [];
+}
+
+// Null once `steps` runs out
+function occurrencesInPeriod(period: Date, rule: RecurrenceRule, dtstart: Date, steps: ExpansionBudget): Date[] | null {
+  const hours = timeValues(rule.freq, 'HOURLY', rule.byHour, period.getUTCHours(), dtstart.getUTCHours());
+  const minutes = timeValues(rule.freq, 'MINUTELY', rule.byMinute, period.getUTCMinutes(), dtstart.getUTCMinutes());
+  const seconds = timeValues(rule.freq, 'SECONDLY', rule.bySecond, period.getUTCSeconds(), dtstart.getUTCSeconds());
+
+  const times = hours.length * minutes.length * seconds.length;
+
+  const occurrences: Date[] = [];
+  for (const day of daysInPeriod(period, rule.freq)) {
+    if (--steps.remaining < 0) return null;
+    if (!matchesDay(day, rule)) continue;
+
+    steps.remaining -= times;
+    if (steps.remaining < 0) return null;
+
+    for (const hour of hours) {
+      for (const minute of minutes) {
+        for (const second of seconds) {
+          occurrences.push(new Date(Date.UTC(
+            day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate(), hour, minute, second,
+          )));
+        }
+      }
+    }
+  }
+
+  if (!rule.bySetPos) return occurrences;
+
+  const selected = new Set<number>();
+  for (const position of rule.bySetPos) {
+    const index = position > 0 ? position - 1 : occurrences.length + position;
+    if (index >= 0 && index < occurrences.length) selected.add(index);
+  }
+  return [...selected].sort((a, b) => a - b).map(index => occurrences[index]);
+}
+
+// Generate the start of every occurrence between rangeStart and rangeEnd
+// (inclusive). DTSTART always counts as the first occurrence. The work is
+// taken from `budget`; once it or the rule's own share runs out, the
+// occurrences found so far are returned.
+export function expandRecurrence(
+  dtstart: Date,
+  rule: RecurrenceRule,
+  rangeStart: Date,
+  rangeEnd: Date,
+  budget = createExpansionBudget(),
+): Date[] {
+  const occurrences: Date[] = [];
+  const fullRule = withDefaults(rule, dtstart);
+  const steps: ExpansionBudget = { remaining: Math.min(budget.remaining, MAX_RULE_STEPS) };
+
+  // A DATE-only UNTIL includes the whole of that day
+  const until = rule.until
+    ? new Date(rule.until.date.getTime() + (rule.until.dateOnly ? DAY_MS - 1 : 0))
+    : null;
+
+  let generated = 0;
+  const add = (occurrence: Date): boolean => {
+    if (rule.count !== undefined && generated >= rule.count) return false;
+    if (until && occurrence > until) return false;
+    generated++;
+    if (occurrence >= rangeStart && occurrence <= rangeEnd) occurrences.push(occurrence);
+    return occurrences.length < MAX_OCCURRENCES;
+  };
+
+  if (!add(dtstart)) return occurrences;
+
+  let period = startOfPeriod(dtstart, rule.freq, rule.weekStart);
+
+  // Without COUNT nothing before the range matters, so jump straight to it
+  if (rule.count === undefined && rangeStart > period) {
+    const skipped = Math.floor(periodsBetween(period, rangeStart, rule.freq) / rule.interval) - 1;
+    if (skipped > 0) period = addPeriods(period, rule.freq, skipped * rule.interval);
+  }
+
+  const start = steps.remaining;
+  try {
+    for (let i = 0; i < MAX_PERIODS && period <= rangeEnd; i++) {
+      if (until && period > until) break;
+
+      const inPeriod = occurrencesInPeriod(period, fullRule, dtstart, steps);
+      if (!inPeriod) break;
+
+      for (const occurrence of inPeriod) {
+        if (occurrence <= dtstart) continue;
+        if (!add(occurrence)) return occurrences;
+      }
+
+      period = addPeriods(period, rule.freq, rule.interval);
+    }
+
+    return occurrences;
+  } finally {
+    budget.remaining -= start - Math.max(steps.remaining, 0);
+  }
+}
@@ -0,0 +1,114 @@
+// Fuzzy event search, shared by /api/calendar's `q` parameter and the
+// embed's search box so both agree on what matches and what to highlight
+
+import { CalendarEvent } from './events';
+
+// Longest query accepted, to keep matching cheap on the server
+export const MAX_SEARCH_LENGTH = 200;
+
+const SEARCH_FIELDS = ['title', 'location', 'description'] as const;
+
+export type SearchField = (typeof SEARCH_FIELDS)[number];
+
+// [start, end) character ranges of a field to highlight
+export type SearchHighlights = Partial<Record<SearchField, Array<[number, number]>>>;
+
+// Lowercase and strip accents, keeping a map from each normalized character
+// back to its index in the original text
+function normalize(text: string): { text: string; indices: number[] } {
+  let normalized = '';
+  const indices: number[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    const folded = text[i].normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+    normalized += folded;
+    for (let j = 0; j < folded.length; j++) indices.push(i);
+  }
+  indices.push(text.length);
+
+  return { text: normalized, indices };
+}
+
+// Split a query into normalized terms
+function searchTerms(query: string): string[] {
+  return normalize(query.slice(0, MAX_SEARCH_LENGTH)).text.split(/\s+/).filter(Boolean);
+}
+
+// Edit distance, counting a swap of neighbouring characters as one edit
+function editDistance(a: string, b: string): number {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) => [i, ...new Array<number>(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) rows[0][j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return rows[a.length][b.length];
+}
+
+// Ranges of the normalized text a term matches: every occurrence as a
+// substring, or failing that, word beginnings within a typo or two of it
+function matchTerm(term: string, text: string): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+
+  for (let index = text.indexOf(term); index !== -1; index = text.indexOf(term, index + term.length)) {
+    ranges.push([index, index + term.length]);
+  }
+  if (ranges.length > 0 || term.length < 4) return ranges;
+
+  const maxTypos = term.length >= 8 ? 2 : 1;
+  for (const word of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    for (const length of [term.length, term.length - 1, term.length + 1]) {
+      if (length > word[0].length) continue;
+      if (editDistance(term, word[0].slice(0, length)) <= maxTypos) {
+        ranges.push([word.index, word.index + length]);
+        break;
+      }
+    }
+  }
+
+  return ranges;
+}
+
+// Where an event matches the query, or null when some term matches none of
+// its fields. Every term has to match, each in any field.
+export function searchEvent(event: CalendarEvent, query: string): SearchHighlights | null {
+  const terms = searchTerms(query);
+  if (terms.length === 0) return null;
+
+  const fields = SEARCH_FIELDS
+    .filter(field => event[field])
+    .map(field => ({ field, ...normalize(event[field]!) }));
+
+  const highlights: SearchHighlights = {};
+
+  for (const term of terms) {
+    let found = false;
+
+    for (const { field, text, indices } of fields) {
+      const ranges = matchTerm(term, text);
+      if (ranges.length === 0) continue;
+
+      found = true;
+      highlights[field] = [
+        ...(highlights[field] ?? []),
+        ...ranges.map(([start, end]): [number, number] => [indices[start], indices[end]]),
+      ];
+    }
+
+    if (!found) return null;
+  }
+
+  return highlights;
+}
+
+export function searchEvents(events: CalendarEvent[], query: string): CalendarEvent[] {
+  if (searchTerms(query).length === 0) return events;
+  return events.filter(event => searchEvent(event, query) !== null);
+}
@@ -0,0 +1,28 @@
+// Secret iCal addresses registered on the server. Embeds refer to them as
+// `secret:<id>` so the address itself never reaches the browser.
+
+import { createId, readCollection, updateCollection } from './store';
+
+const COLLECTION = 'secret-sources';
+
+interface SecretSource {
+  url: string;
+  createdAt: string;
+}
+
+export async function registerSecretSource(url: string): Promise<string> {
+  return updateCollection<SecretSource, string>(COLLECTION, records => {
+    // Registering the same address twice returns the existing ID
+    const existing = Object.entries(records).find(([, record]) => record.url === url);
+    if (existing) return existing[0];
+
+    const id = createId();
+    records[id] = { url, createdAt: new Date().toISOString() };
+    return id;
+  });
+}
+
+export async function getSecretSourceUrl(id: string): Promise<string | null> {
+  const records = await readCollection<SecretSource>(COLLECTION);
+  return Object.hasOwn(records, id) ? records[id].url : null;
+}
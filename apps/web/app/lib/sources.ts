@@ -0,0 +1,206 @@
+// Fetchers that turn a CalendarSource into raw iCal data
+
+import { lookup, LookupOptions } from 'dns';
+import { request as httpRequest } from 'http';
+import { request as httpsRequest } from 'https';
+import { isIP, LookupFunction } from 'net';
+import { unstable_cache } from 'next/cache';
+import { CalendarProvider, CalendarSource, parseCalendarSource } from '../types';
+import { getSecretSourceUrl } from './secrets';
+
+const USER_AGENT = 'Simply-Calendar-Embeds/1.0';
+const MAX_REDIRECTS = 3;
+// Whole request, however slowly the feed trickles in
+const FEED_TIMEOUT_MS = 15_000;
+// Feeds are cached raw, and Next.js caches entries of up to 2MB once
+// escaped as JSON twice; the margin covers that escaping
+const MAX_FEED_BYTES = 1.5 * 1024 * 1024;
+
+export class CalendarSourceError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'CalendarSourceError';
+  }
+}
+
+// Reject feeds on loopback, link-local and private network addresses so the
+// route can't be used to reach services next to the server
+function isPrivateHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  return host === 'localhost' || /\.(localhost|local|internal)$/.test(host) || (isIP(host) !== 0 && isPrivateAddress(host));
+}
+
+function isPrivateAddress(address: string): boolean {
+  const ip = address.toLowerCase();
+
+  const ipv4 = ip.replace(/^::ffff:/, '').match(/^(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (ipv4) {
+    const [a, b] = [Number(ipv4[1]), Number(ipv4[2])];
+    return a === 0 || a === 10 || a === 127 ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 198 && (b === 18 || b === 19)) ||
+      a >= 224; // multicast, reserved and broadcast
+  }
+
+  // NAT64 (64:ff9b::/96 and the local-use 64:ff9b:1::/48) reaches IPv4
+  // addresses, private ones included; ff00::/8 is multicast
+  return ip === '::' || ip === '::1' || /^f[cdf]/.test(ip) || /^fe[89ab]/.test(ip) ||
+    ip.startsWith('::ffff:') || ip.startsWith('64:ff9b:');
+}
+
+// DNS lookup for feed requests that fails unless every address the name
+// resolves to is public. The request connects to the address checked here,
+// so a second lookup can't swap in a private one.
+const publicLookup = ((hostname: string, options: LookupOptions, callback: (...args: unknown[]) => void) => {
+  lookup(hostname, { all: true, family: options.family }, (error, addresses) => {
+    if (error) return callback(error);
+    if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+      return callback(new CalendarSourceError('Calendar URL must point to a public http(s) address', 400));
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}) as LookupFunction;
+
+interface FeedResponse {
+  ok: boolean;
+  status: number;
+  location: string | null;
+  body: string;
+}
+
+// One request, without following redirects
+function requestFeed(feedUrl: string): Promise<FeedResponse> {
+  const url = new URL(feedUrl);
+  const request = url.protocol === 'https:' ? httpsRequest : httpRequest;
+
+  let deadline: ReturnType<typeof setTimeout> | undefined;
+
+  return new Promise<FeedResponse>((resolve, reject) => {
+    const req = request(url, {
+      headers: {
+        'User-Agent': USER_AGENT,
+        Accept: 'text/calendar, text/plain;q=0.9, */*;q=0.8',
+      },
+      lookup: publicLookup,
+    }, res => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      res.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_FEED_BYTES) {
+          req.destroy(new CalendarSourceError('Calendar feed is too large', 413));
+          return;
+        }
+        chunks.push(chunk);
+      });
+      res.on('end', () => {
+        const status = res.statusCode ?? 0;
+        resolve({
+          ok: status >= 200 && status < 300,
+          status,
+          location: typeof res.headers.location === 'string' ? res.headers.location : null,
+          body: Buffer.concat(chunks).toString('utf8'),
+        });
+      });
+      res.on('error', reject);
+    });
+
+    deadline = setTimeout(
+      () => req.destroy(new CalendarSourceError('Calendar feed took too long to respond', 504)),
+      FEED_TIMEOUT_MS
+    );
+    req.on('error', reject);
+    req.end();
+  }).finally(() => clearTimeout(deadline));
+}
+
+// Cache for 5 minutes
+const cachedRequestFeed = unstable_cache(requestFeed, ['calendar-feed'], { revalidate: 300 });
+
+// Fetch a feed URL, following redirects only to public hosts
+async function fetchFeed(feedUrl: string): Promise<FeedResponse> {
+  let url = feedUrl;
+
+  for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+    const parsed = new URL(url);
+    if (!['http:', 'https:'].includes(parsed.protocol) || isPrivateHost(parsed.hostname)) {
+      throw new CalendarSourceError('Calendar URL must point to a public http(s) address', 400);
+    }
+
+    const response = await cachedRequestFeed(url);
+
+    if (response.status >= 300 && response.status < 400 && response.location) {
+      url = new URL(response.location, url).toString();
+      continue;
+    }
+
+    return response;
+  }
+
+  throw new CalendarSourceError('Calendar URL redirected too many times', 502);
+}
+
+async function fetchGoogleCalendar(source: CalendarSource): Promise<string> {
+  // Fetch the public iCal feed, falling back to the alternative URL format
+  for (const feed of ['basic', 'full']) {
+    const response = await fetchFeed(
+      `https://calendar.google.com/calendar/ical/${encodeURIComponent(source.id)}/public/${feed}.ics`
+    );
+    if (response.ok) {
+      return response.body;
+    }
+  }
+
+  throw new CalendarSourceError(
+    'Calendar not found or not public. Make sure the calendar is set to public, or register its secret address.',
+    404
+  );
+}
+
+async function fetchICalFeed(source: CalendarSource): Promise<string> {
+  const response = await fetchFeed(source.id);
+
+  if (!response.ok) {
+    const notShared = [401, 403, 404].includes(response.status);
+    throw new CalendarSourceError(
+      notShared ? 'Calendar feed not found or not shared publicly.' : `Calendar feed returned an error (${response.status}).`,
+      notShared ? 404 : 502
+    );
+  }
+
+  const icalData = response.body;
+  if (!icalData.includes('BEGIN:VCALENDAR')) {
+    throw new CalendarSourceError('The URL did not return an iCalendar (.ics) feed.', 422);
+  }
+
+  return icalData;
+}
+
+// Look up a registered secret address and fetch it like any other source
+async function fetchSecretSource(source: CalendarSource): Promise<string> {
+  const url = await getSecretSourceUrl(source.id);
+  const resolved = url ? parseCalendarSource(url) : null;
+
+  if (!resolved || resolved.provider === 'secret') {
+    throw new CalendarSourceError('Private calendar not found. It may have been removed from this server.', 404);
+  }
+
+  return fetchers[resolved.provider](resolved);
+}
+
+const fetchers: Record<CalendarProvider, (source: CalendarSource) => Promise<string>> = {
+  google: fetchGoogleCalendar,
+  outlook: fetchICalFeed,
+  icloud: fetchICalFeed,
+  nextcloud: fetchICalFeed,
+  ics: fetchICalFeed,
+  secret: fetchSecretSource,
+};
+
+export function fetchCalendarSource(source: CalendarSource): Promise<string> {
+  return fetchers[source.provider](source);
+}
@@ -0,0 +1,55 @@
+// Small JSON file store for data the server keeps between requests.
+// Each collection is one file of records keyed by ID in CALENDAR_DATA_DIR
+// (default: .data in the app directory).
+
+import { randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+const DATA_DIR = process.env.CALENDAR_DATA_DIR || path.join(process.cwd(), '.data');
+
+// Writes are queued per collection so concurrent updates don't overwrite each other
+const writeQueues = new Map<string, Promise<unknown>>();
+
+function collectionPath(collection: string): string {
+  return path.join(DATA_DIR, `${collection}.json`);
+}
+
+export async function readCollection<T>(collection: string): Promise<Record<string, T>> {
+  try {
+    return JSON.parse(await fs.readFile(collectionPath(collection), 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+    throw error;
+  }
+}
+
+// Read, modify and write back a collection. `update` may change the records
+// in place; its return value is passed through.
+export function updateCollection<T, R>(
+  collection: string,
+  update: (records: Record<string, T>) => R
+): Promise<R> {
+  const previous = writeQueues.get(collection) ?? Promise.resolve();
+
+  const next = previous.catch(() => undefined).then(async () => {
+    const records = await readCollection<T>(collection);
+    const result = update(records);
+
+    // Write to a temporary file first so a crash never leaves half a file behind
+    const file = collectionPath(collection);
+    await fs.mkdir(DATA_DIR, { recursive: true });
+    await fs.writeFile(`${file}.tmp`, JSON.stringify(records, null, 2));
+    await fs.rename(`${file}.tmp`, file);
+
+    return result;
+  });
+
+  writeQueues.set(collection, next);
+  return next;
+}
+
+// Random URL-safe ID
+export function createId(bytes = 16): string {
+  return randomBytes(bytes).toString('base64url');
+}
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { parseICalEvents } from './events';
+import { createTimeZoneResolver, formatVTimeZone, getTimeZoneOffset } from './timezone';
+
+const at = (value: string) => new Date(`${value}Z`);
+const HOUR = 60 * 60 * 1000;
+
+// US Eastern under a name Intl doesn't know, so only its rules can resolve it
+const CUSTOM_EASTERN = [
+  'BEGIN:VTIMEZONE',
+  'TZID:Custom Eastern',
+  'BEGIN:DAYLIGHT',
+  'DTSTART:20070311T020000',
+  'TZOFFSETFROM:-0500',
+  'TZOFFSETTO:-0400',
+  'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU',
+  'END:DAYLIGHT',
+  'BEGIN:STANDARD',
+  'DTSTART:20071104T020000',
+  'TZOFFSETFROM:-0400',
+  'TZOFFSETTO:-0500',
+  'RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU',
+  'END:STANDARD',
+  'END:VTIMEZONE',
+];
+
+function feed(...lines: string[]): string {
+  return ['BEGIN:VCALENDAR', 'VERSION:2.0', ...lines, 'END:VCALENDAR'].join('\r\n');
+}
+
+describe('createTimeZoneResolver', () => {
+  const resolver = createTimeZoneResolver(feed(...CUSTOM_EASTERN));
+
+  it('resolves a zone from its VTIMEZONE rules on both sides of DST', () => {
+    // DST starts on 8 March 2026 and ends on 1 November
+    expect(resolver.toInstant(at('2026-03-07T09:00:00'), 'Custom Eastern')).toEqual(at('2026-03-07T14:00:00'));
+    expect(resolver.toInstant(at('2026-03-09T09:00:00'), 'Custom Eastern')).toEqual(at('2026-03-09T13:00:00'));
+    expect(resolver.toInstant(at('2026-11-02T09:00:00'), 'Custom Eastern')).toEqual(at('2026-11-02T14:00:00'));
+  });
+
+  it('converts instants back to the wall clock', () => {
+    expect(resolver.toWallClock(at('2026-07-01T16:00:00'), 'Custom Eastern')).toEqual(at('2026-07-01T12:00:00'));
+  });
+
+  it('maps Windows and prefixed TZIDs to IANA names', () => {
+    expect(resolver.ianaName('Eastern Standard Time')).toBe('America/New_York');
+    expect(resolver.ianaName('/mozilla.org/20050126_1/Europe/Berlin')).toBe('Europe/Berlin');
+    expect(resolver.ianaName('Custom Eastern')).toBeUndefined();
+  });
+
+  it('reads floating times in the calendar zone', () => {
+    const floating = createTimeZoneResolver(feed(), 'Europe/Paris');
+    const value = { date: at('2026-01-15T09:00:00'), dateOnly: false, utc: false };
+    expect(floating.zoneOf(value)).toBe('Europe/Paris');
+    expect(floating.toInstant(value.date, 'Europe/Paris')).toEqual(at('2026-01-15T08:00:00'));
+  });
+});
+
+describe('recurring events across DST', () => {
+  it('keep their wall-clock time in a VTIMEZONE zone', () => {
+    const events = parseICalEvents(feed(
+      ...CUSTOM_EASTERN,
+      'BEGIN:VEVENT',
+      'UID:weekly',
+      'DTSTART;TZID=Custom Eastern:20260302T090000',
+      'DTEND;TZID=Custom Eastern:20260302T100000',
+      'RRULE:FREQ=WEEKLY;COUNT=2',
+      'END:VEVENT',
+    ), '2026-03-01T00:00:00Z', '2026-03-31T00:00:00Z');
+
+    expect(events.map(event => [event.id, event.start.dateTime, event.end.dateTime])).toEqual([
+      ['weekly_20260302T140000Z', '2026-03-02T09:00:00-05:00', '2026-03-02T10:00:00-05:00'],
+      ['weekly_20260309T130000Z', '2026-03-09T09:00:00-04:00', '2026-03-09T10:00:00-04:00'],
+    ]);
+  });
+
+  it('keep their wall-clock time in an IANA zone', () => {
+    const events = parseICalEvents(feed(
+      'BEGIN:VEVENT',
+      'UID:daily',
+      'DTSTART;TZID=Europe/Berlin:20261024T090000',
+      'RRULE:FREQ=DAILY;COUNT=2',
+      'END:VEVENT',
+    ), '2026-10-01T00:00:00Z', '2026-11-01T00:00:00Z');
+
+    expect(events.map(event => event.start)).toEqual([
+      { dateTime: '2026-10-24T09:00:00+02:00', timeZone: 'Europe/Berlin' },
+      { dateTime: '2026-10-25T09:00:00+01:00', timeZone: 'Europe/Berlin' },
+    ]);
+  });
+});
+
+describe('formatVTimeZone', () => {
+  it('describes the offset changes in the range', () => {
+    const lines = formatVTimeZone('Europe/Berlin', at('2026-01-01T00:00:00'), at('2026-12-31T00:00:00'));
+
+    expect(lines.filter(line => /^(BEGIN|DTSTART|TZOFFSETTO)/.test(line))).toEqual([
+      'BEGIN:VTIMEZONE',
+      'BEGIN:STANDARD', 'DTSTART:20260101T010000', 'TZOFFSETTO:+0100',
+      'BEGIN:DAYLIGHT', 'DTSTART:20260329T020000', 'TZOFFSETTO:+0200',
+      'BEGIN:STANDARD', 'DTSTART:20261025T030000', 'TZOFFSETTO:+0100',
+    ]);
+  });
+
+  it('round-trips through the resolver', () => {
+    const from = at('2026-01-01T00:00:00');
+    const resolver = createTimeZoneResolver(feed(
+      ...formatVTimeZone('America/Sao_Paulo', from, at('2026-12-31T00:00:00')).map(line =>
+        line.replace(/^(TZID|X-LIC-LOCATION):.*/, '$1:Exported')
+      )
+    ));
+    const instant = at('2026-06-01T12:00:00');
+    const offset = getTimeZoneOffset(instant, 'America/Sao_Paulo');
+
+    expect(offset).toBe(-3 * HOUR);
+    expect(resolver.toWallClock(instant, 'Exported')).toEqual(new Date(instant.getTime() + offset));
+  });
+});
@@ -0,0 +1,387 @@
+// Timezone resolution for iCal DATE-TIME values
+//
+// Wall-clock times use the same convention as lib/ical: the local time is
+// stored in the UTC fields of a Date. IANA zones are resolved with Intl, and
+// anything else falls back to the VTIMEZONE definitions in the feed.
+
+import { ICalDateValue, parseICalDateList, parseICalDateValue, parseICalProperty, unfoldICalLines } from './ical';
+import { createExpansionBudget, ExpansionBudget, expandRecurrence, parseRecurrenceRule, RecurrenceRule } from './recurrence';
+
+// Common Windows zone names, as used by Outlook and Exchange feeds
+const WINDOWS_TIME_ZONES: Record<string, string> = {
+  'Dateline Standard Time': 'Etc/GMT+12',
+  'Hawaiian Standard Time': 'Pacific/Honolulu',
+  'Alaskan Standard Time': 'America/Anchorage',
+  'Pacific Standard Time': 'America/Los_Angeles',
+  'US Mountain Standard Time': 'America/Phoenix',
+  'Mountain Standard Time': 'America/Denver',
+  'Central Standard Time': 'America/Chicago',
+  'Eastern Standard Time': 'America/New_York',
+  'Atlantic Standard Time': 'America/Halifax',
+  'Newfoundland Standard Time': 'America/St_Johns',
+  'E. South America Standard Time': 'America/Sao_Paulo',
+  'UTC': 'UTC',
+  'GMT Standard Time': 'Europe/London',
+  'W. Europe Standard Time': 'Europe/Berlin',
+  'Romance Standard Time': 'Europe/Paris',
+  'Central Europe Standard Time': 'Europe/Budapest',
+  'Central European Standard Time': 'Europe/Warsaw',
+  'GTB Standard Time': 'Europe/Bucharest',
+  'FLE Standard Time': 'Europe/Kiev',
+  'Russian Standard Time': 'Europe/Moscow',
+  'South Africa Standard Time': 'Africa/Johannesburg',
+  'Arabian Standard Time': 'Asia/Dubai',
+  'India Standard Time': 'Asia/Kolkata',
+  'China Standard Time': 'Asia/Shanghai',
+  'Singapore Standard Time': 'Asia/Singapore',
+  'Tokyo Standard Time': 'Asia/Tokyo',
+  'Korea Standard Time': 'Asia/Seoul',
+  'AUS Eastern Standard Time': 'Australia/Sydney',
+  'New Zealand Standard Time': 'Pacific/Auckland',
+};
+
+interface Observance {
+  start: Date;
+  offsetFrom: number;
+  offsetTo: number;
+  rule: RecurrenceRule | null;
+  rdates: Date[];
+}
+
+interface Transition {
+  onset: Date;       // wall-clock time, in the offset before the transition
+  offsetFrom: number;
+  offsetTo: number;
+}
+
+interface VTimeZone {
+  tzid: string;
+  location?: string;
+  observances: Observance[];
+  transitionCache: Map<number, Transition[]>;
+}
+
+export interface TimeZoneResolver {
+  // The zone a DATE-TIME is in; undefined for DATE values and unresolvable floating times
+  zoneOf(value: ICalDateValue): string | undefined;
+  toInstant(wallClock: Date, zone: string | undefined): Date;
+  toWallClock(instant: Date, zone: string | undefined): Date;
+  // IANA name for a zone, if there is one
+  ianaName(zone: string): string | undefined;
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat | null>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat | null {
+  if (!formatterCache.has(timeZone)) {
+    try {
+      formatterCache.set(timeZone, new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit',
+      }));
+    } catch {
+      formatterCache.set(timeZone, null);
+    }
+  }
+  return formatterCache.get(timeZone) ?? null;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  return getFormatter(timeZone) !== null;
+}
+
+// Offset of an IANA zone from UTC at the given instant, in milliseconds
+export function getTimeZoneOffset(instant: Date, timeZone: string): number {
+  const formatter = getFormatter(timeZone);
+  if (!formatter) return 0;
+
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(instant)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return wallClock - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+// Map a TZID to an IANA name: Windows names, and prefixed forms such as
+// /mozilla.org/20050126_1/America/New_York
+function normalizeTimeZone(tzid: string): string | undefined {
+  if (isValidTimeZone(tzid)) return tzid;
+  if (WINDOWS_TIME_ZONES[tzid]) return WINDOWS_TIME_ZONES[tzid];
+
+  const segments = tzid.split('/').filter(Boolean);
+  for (let i = 1; i < segments.length; i++) {
+    const candidate = segments.slice(i).join('/');
+    if (isValidTimeZone(candidate)) return candidate;
+  }
+
+  return undefined;
+}
+
+// Format: +HHMM[SS] or -HHMM[SS] -> milliseconds
+function parseUTCOffset(value: string): number {
+  const match = value.trim().match(/^([+-])(\d{2})(\d{2})(\d{2})?$/);
+  if (!match) return 0;
+  const [, sign, hours, minutes, seconds] = match;
+  const ms = (Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds || 0)) * 1000;
+  return sign === '-' ? -ms : ms;
+}
+
+// Format an offset in milliseconds as +HH:MM
+export function formatUTCOffset(offset: number): string {
+  const sign = offset < 0 ? '-' : '+';
+  const totalMinutes = Math.round(Math.abs(offset) / 60000);
+  const hours = String(Math.floor(totalMinutes / 60)).padStart(2, '0');
+  const minutes = String(totalMinutes % 60).padStart(2, '0');
+  return `${sign}${hours}:${minutes}`;
+}
+
+function parseVTimeZones(icalData: string): Map<string, VTimeZone> {
+  const zones = new Map<string, VTimeZone>();
+  const componentStack: string[] = [];
+
+  let zone: VTimeZone | null = null;
+  let observance: Partial<Observance> & { rdates: Date[] } | null = null;
+
+  for (const line of unfoldICalLines(icalData)) {
+    const property = parseICalProperty(line);
+    if (!property) continue;
+
+    const { name, params, value } = property;
+
+    if (name === 'BEGIN') {
+      const component = value.toUpperCase();
+      componentStack.push(component);
+      if (component === 'VTIMEZONE') {
+        zone = { tzid: '', observances: [], transitionCache: new Map() };
+      } else if (zone && (component === 'STANDARD' || component === 'DAYLIGHT')) {
+        observance = { rule: null, rdates: [] };
+      }
+      continue;
+    }
+
+    if (name === 'END') {
+      const component = componentStack.pop();
+      if (component === 'VTIMEZONE' && zone) {
+        if (zone.tzid) zones.set(zone.tzid, zone);
+        zone = null;
+      } else if ((component === 'STANDARD' || component === 'DAYLIGHT') && zone && observance) {
+        if (observance.start && observance.offsetTo !== undefined) {
+          zone.observances.push({
+            ...observance,
+            offsetFrom: observance.offsetFrom ?? observance.offsetTo,
+          } as Observance);
+        }
+        observance = null;
+      }
+      continue;
+    }
+
+    if (observance) {
+      switch (name) {
+        case 'DTSTART':
+          observance.start = parseICalDateValue(value)?.date;
+          break;
+        case 'TZOFFSETFROM':
+          observance.offsetFrom = parseUTCOffset(value);
+          break;
+        case 'TZOFFSETTO':
+          observance.offsetTo = parseUTCOffset(value);
+          break;
+        case 'RRULE':
+          observance.rule = parseRecurrenceRule(value);
+          break;
+        case 'RDATE':
+          observance.rdates.push(...parseICalDateList(value, params).map(rdate => rdate.date));
+          break;
+      }
+    } else if (zone) {
+      if (name === 'TZID') zone.tzid = value;
+      if (name === 'X-LIC-LOCATION') zone.location = value;
+    }
+  }
+
+  return zones;
+}
+
+// Transitions with onsets in the given year or the one before, oldest first
+function getTransitions(zone: VTimeZone, year: number, budget: ExpansionBudget): Transition[] {
+  const cached = zone.transitionCache.get(year);
+  if (cached) return cached;
+
+  const rangeStart = new Date(Date.UTC(year - 1, 0, 1));
+  const rangeEnd = new Date(Date.UTC(year + 1, 0, 1));
+  const transitions: Transition[] = [];
+
+  for (const observance of zone.observances) {
+    const onsets = observance.rule
+      ? expandRecurrence(observance.start, observance.rule, rangeStart, rangeEnd, budget)
+      : [observance.start];
+
+    for (const onset of [...onsets, ...observance.rdates]) {
+      if (onset < rangeEnd) {
+        transitions.push({ onset, offsetFrom: observance.offsetFrom, offsetTo: observance.offsetTo });
+      }
+    }
+  }
+
+  transitions.sort((a, b) => a.onset.getTime() - b.onset.getTime());
+  zone.transitionCache.set(year, transitions);
+  return transitions;
+}
+
+function vtimezoneOffset(zone: VTimeZone, time: Date, isInstant: boolean, budget: ExpansionBudget): number {
+  const transitions = getTransitions(zone, time.getUTCFullYear(), budget);
+  if (transitions.length === 0) return 0;
+
+  let offset = transitions[0].offsetFrom;
+  for (const transition of transitions) {
+    const onset = isInstant
+      ? transition.onset.getTime() - transition.offsetFrom
+      : transition.onset.getTime();
+    if (onset > time.getTime()) break;
+    offset = transition.offsetTo;
+  }
+  return offset;
+}
+
+export function createTimeZoneResolver(icalData: string, defaultTimeZone?: string | null): TimeZoneResolver {
+  const vtimezones = parseVTimeZones(icalData);
+  // VTIMEZONE rules come from the feed too, so their expansion shares a budget
+  const budget = createExpansionBudget();
+  const ianaNames = new Map<string, string | undefined>();
+
+  const ianaName = (zone: string): string | undefined => {
+    if (!ianaNames.has(zone)) {
+      const location = vtimezones.get(zone)?.location;
+      ianaNames.set(zone, normalizeTimeZone(zone) ?? (location ? normalizeTimeZone(location) : undefined));
+    }
+    return ianaNames.get(zone);
+  };
+
+  const floatingZone = defaultTimeZone && ianaName(defaultTimeZone) ? defaultTimeZone : undefined;
+
+  // Offset at a wall-clock time (isInstant = false) or at an instant
+  const offsetOf = (zone: string, time: Date, isInstant: boolean): number => {
+    const iana = ianaName(zone);
+    if (iana) {
+      if (isInstant) return getTimeZoneOffset(time, iana);
+      // Guess with the offset at the same numeric instant, then correct
+      // once in case a DST change sits between the two
+      const guess = getTimeZoneOffset(time, iana);
+      return getTimeZoneOffset(new Date(time.getTime() - guess), iana);
+    }
+
+    const vtimezone = vtimezones.get(zone);
+    return vtimezone ? vtimezoneOffset(vtimezone, time, isInstant, budget) : 0;
+  };
+
+  return {
+    zoneOf(value) {
+      if (value.dateOnly) return undefined;
+      if (value.utc) return 'UTC';
+      if (value.tzid && (ianaName(value.tzid) || vtimezones.has(value.tzid))) return value.tzid;
+      return floatingZone;
+    },
+
+    toInstant(wallClock, zone) {
+      if (!zone) return wallClock;
+      return new Date(wallClock.getTime() - offsetOf(zone, wallClock, false));
+    },
+
+    toWallClock(instant, zone) {
+      if (!zone) return instant;
+      return new Date(instant.getTime() + offsetOf(zone, instant, true));
+    },
+
+    ianaName,
+  };
+}
+
+// Wall clock and offset -> 2026-10-20T09:00:00-04:00
+export function formatZonedDateTime(wallClock: Date, offset: number): string {
+  return `${wallClock.toISOString().slice(0, 19)}${formatUTCOffset(offset)}`;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Offset changes of an IANA zone between two instants, found by stepping a
+// day at a time and narrowing each change down to the minute
+function findOffsetChanges(timeZone: string, from: Date, to: Date): Array<{ instant: Date; offsetFrom: number; offsetTo: number }> {
+  const changes: Array<{ instant: Date; offsetFrom: number; offsetTo: number }> = [];
+  let time = Math.floor(from.getTime() / 60000) * 60000;
+  let offset = getTimeZoneOffset(new Date(time), timeZone);
+
+  while (time < to.getTime()) {
+    const next = Math.min(time + DAY_MS, to.getTime());
+    const nextOffset = getTimeZoneOffset(new Date(next), timeZone);
+
+    if (nextOffset !== offset) {
+      let low = time;
+      let high = next;
+      while (high - low > 60000) {
+        const middle = Math.floor((low + high) / 2 / 60000) * 60000;
+        if (middle <= low) break;
+        if (getTimeZoneOffset(new Date(middle), timeZone) === offset) low = middle;
+        else high = middle;
+      }
+      changes.push({ instant: new Date(high), offsetFrom: offset, offsetTo: nextOffset });
+      offset = nextOffset;
+    }
+
+    time = next;
+  }
+
+  return changes;
+}
+
+// +HHMM, as used by TZOFFSETFROM and TZOFFSETTO
+function formatICalOffset(offset: number): string {
+  return formatUTCOffset(offset).replace(':', '');
+}
+
+// YYYYMMDDTHHMMSS of a wall-clock time
+function formatICalWallClock(wallClock: Date): string {
+  return wallClock.toISOString().slice(0, 19).replace(/[-:]/g, '');
+}
+
+// VTIMEZONE content lines describing an IANA zone between two instants.
+// Intl only exposes offsets, not rules, so each transition in the range
+// becomes its own observance; the offset in force at `from` is the first.
+export function formatVTimeZone(timeZone: string, from: Date, to: Date): string[] {
+  const initialOffset = getTimeZoneOffset(from, timeZone);
+  const changes = findOffsetChanges(timeZone, from, to);
+  const standardOffset = Math.min(initialOffset, ...changes.map(change => change.offsetTo));
+
+  const observance = (onset: Date, offsetFrom: number, offsetTo: number) => {
+    const kind = offsetTo > standardOffset ? 'DAYLIGHT' : 'STANDARD';
+    return [
+      `BEGIN:${kind}`,
+      `DTSTART:${formatICalWallClock(onset)}`,
+      `TZOFFSETFROM:${formatICalOffset(offsetFrom)}`,
+      `TZOFFSETTO:${formatICalOffset(offsetTo)}`,
+      `END:${kind}`,
+    ];
+  };
+
+  return [
+    'BEGIN:VTIMEZONE',
+    `TZID:${timeZone}`,
+    `X-LIC-LOCATION:${timeZone}`,
+    ...observance(new Date(from.getTime() + initialOffset), initialOffset, initialOffset),
+    // Onsets are wall-clock times in the offset before the transition
+    ...changes.flatMap(change => observance(
+      new Date(change.instant.getTime() + change.offsetFrom),
+      change.offsetFrom,
+      change.offsetTo
+    )),
+    'END:VTIMEZONE',
+  ];
+}
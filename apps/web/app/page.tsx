@@ -3,27 +3,143 @@
 import { useState, useEffect, useCallback, Suspense } from 'react';
 import Link from 'next/link';
 import { useSearchParams } from 'next/navigation';
-import { CalendarConfig, defaultConfig, extractCalendarId, configToQueryString, queryStringToConfig } from './types';
+import { CalendarConfig, CalendarSourceConfig, EventColorRule, EventFilterRule, EventTabGroup, MAX_FILTER_RULES, calendarImageUrl, calendarPrintUrl, defaultConfig, isSafeFilterPattern, parseCalendarSource, configToQueryString, queryStringToConfig } from './types';
 import CustomCalendar from './components/CustomCalendar';
-import { CalendarEvent } from './api/calendar/route';
+import { LOCALES } from './components/i18n';
+import { formatDateKey, getTimeZones } from './components/calendar-utils';
+import { useCalendarData } from './hooks/useCalendarData';
+import { configAttributeName, EMBED_ELEMENT_NAME } from './lib/embed-script';
+
+const VIEW_MODES: Array<{ mode: CalendarConfig['viewMode']; label: string }> = [
+  { mode: 'month', label: 'Month' },
+  { mode: 'week', label: 'Week' },
+  { mode: 'day', label: 'Day' },
+  { mode: 'agenda', label: 'Agenda' },
+  { mode: 'year', label: 'Year' },
+  { mode: 'multiMonth', label: 'Months' },
+];
+
+const FILTER_FIELDS: Array<{ field: EventFilterRule['field']; label: string }> = [
+  { field: 'title', label: 'Title' },
+  { field: 'location', label: 'Location' },
+  { field: 'category', label: 'Category' },
+  { field: 'allDay', label: 'All-day events' },
+  { field: 'timed', label: 'Timed events' },
+];
+
+// Whether a filter rule's regex compiles and is safe to run; the server
+// ignores ones that aren't
+function isValidPattern(value: string): boolean {
+  try {
+    new RegExp(value);
+    return isSafeFilterPattern(value);
+  } catch {
+    return false;
+  }
+}
+
+// Colors handed out to newly added calendars
+const SOURCE_COLORS = ['#34a853', '#fbbc04', '#ea4335', '#9c27b0', '#00acc1', '#ff7043'];
 
 function HomeContent() {
   const searchParams = useSearchParams();
   const [config, setConfig] = useState<CalendarConfig>(defaultConfig);
   const [embedCode, setEmbedCode] = useState('');
+  const [elementCode, setElementCode] = useState('');
+  const [embedFormat, setEmbedFormat] = useState<'iframe' | 'element'>('iframe');
   const [copied, setCopied] = useState(false);
   const [activeTab, setActiveTab] = useState<'basic' | 'styling' | 'advanced'>('basic');
   
   // Calendar data state
-  const [events, setEvents] = useState<CalendarEvent[]>([]);
-  const [calendarName, setCalendarName] = useState<string>('');
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const {
+    events,
+    calendarName,
+    timeZone,
+    calendars,
+    loading,
+    error,
+    fetchCalendarData,
+    loadMore,
+    loadingMore,
+    hasMore,
+  } = useCalendarData(config, { debounce: 500 });
+  const [registering, setRegistering] = useState<string | null>(null);
+  const [registerError, setRegisterError] = useState<string | null>(null);
+
+  // Saved embed being edited; the edit key is kept in localStorage
+  const [savedEmbed, setSavedEmbed] = useState<{ id: string; editKey: string | null } | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  // Range for the printable schedule link, YYYY-MM-DD
+  const [printRange, setPrintRange] = useState(() => {
+    const now = new Date();
+    return {
+      start: formatDateKey(new Date(now.getFullYear(), now.getMonth(), 1)),
+      end: formatDateKey(new Date(now.getFullYear(), now.getMonth() + 1, 0)),
+      layout: 'month' as 'month' | 'list',
+    };
+  });
+  const [imageLayout, setImageLayout] = useState<'month' | 'list'>('month');
 
   const updateConfig = useCallback((updates: Partial<CalendarConfig>) => {
     setConfig(prev => ({ ...prev, ...updates }));
   }, []);
 
+  const updateCalendar = (id: string, updates: Partial<CalendarSourceConfig>) => {
+    setConfig(prev => ({
+      ...prev,
+      calendars: prev.calendars.map(calendar => calendar.id === id ? { ...calendar, ...updates } : calendar),
+    }));
+  };
+
+  const updateFilter = (id: string, updates: Partial<EventFilterRule>) => {
+    setConfig(prev => ({
+      ...prev,
+      filters: prev.filters.map(rule => rule.id === id ? { ...rule, ...updates } : rule),
+    }));
+  };
+
+  const updateColorRule = (id: string, updates: Partial<EventColorRule>) => {
+    setConfig(prev => ({
+      ...prev,
+      colorRules: prev.colorRules.map(rule => rule.id === id ? { ...rule, ...updates } : rule),
+    }));
+  };
+
+  const updateTabGroup = (id: string, updates: Partial<EventTabGroup>) => {
+    setConfig(prev => ({
+      ...prev,
+      tabGroups: prev.tabGroups.map(group => group.id === id ? { ...group, ...updates } : group),
+    }));
+  };
+
+  // Store a secret address on the server and return its `secret:` reference
+  const registerSecretAddress = async (url: string): Promise<string | null> => {
+    setRegistering(url);
+    setRegisterError(null);
+
+    try {
+      const response = await fetch('/api/sources', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to register calendar');
+      }
+
+      return data.source;
+    } catch (err) {
+      setRegisterError(err instanceof Error ? err.message : 'Failed to register calendar');
+      return null;
+    } finally {
+      setRegistering(null);
+    }
+  };
+
   // Load config from URL params (for presets)
   useEffect(() => {
     const parsedConfig = queryStringToConfig(searchParams);
@@ -32,80 +148,149 @@ function HomeContent() {
     }
   }, [searchParams]);
 
-  // Fetch calendar data when URL changes
-  const fetchCalendarData = useCallback(async (calendarUrl: string) => {
-    const calendarId = extractCalendarId(calendarUrl);
-    if (!calendarId) {
-      setError('Invalid calendar URL or ID');
-      return;
-    }
+  // Load a saved embed for editing (/?embed=<id>)
+  const embedId = searchParams.get('embed');
+  useEffect(() => {
+    if (!embedId) return;
+
+    let cancelled = false;
+    (async () => {
+      try {
+        const response = await fetch(`/api/embeds/${encodeURIComponent(embedId)}`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load embed');
+        }
+        if (cancelled) return;
+
+        setConfig(data.embed.config);
+        setSavedEmbed({ id: embedId, editKey: localStorage.getItem(`embed-key:${embedId}`) });
+        setSaveError(null);
+      } catch (err) {
+        if (!cancelled) setSaveError(err instanceof Error ? err.message : 'Failed to load embed');
+      }
+    })();
 
-    setLoading(true);
-    setError(null);
+    return () => {
+      cancelled = true;
+    };
+  }, [embedId]);
+
+  // Create a new saved embed, or update the one being edited
+  const saveEmbed = async (asNew = false) => {
+    setSaving(true);
+    setSaveError(null);
 
     try {
-      // Set time range based on showPastEvents
-      const timeMin = config.showPastEvents 
-        ? new Date(Date.now() - 365 * 24 * 60 * 60 * 1000).toISOString() // 1 year ago
-        : new Date().toISOString(); // Now
-      
-      const response = await fetch(`/api/calendar?calendarId=${encodeURIComponent(calendarId)}&timeMin=${encodeURIComponent(timeMin)}`);
+      const updating = savedEmbed?.editKey && !asNew;
+      const response = await fetch(updating ? `/api/embeds/${savedEmbed.id}` : '/api/embeds', {
+        method: updating ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(updating ? { Authorization: `Bearer ${savedEmbed.editKey}` } : {}),
+        },
+        body: JSON.stringify({ config }),
+      });
       const data = await response.json();
 
       if (!response.ok) {
-        throw new Error(data.error || 'Failed to fetch calendar');
+        throw new Error(data.error || 'Failed to save embed');
       }
 
-      setEvents(data.events || []);
-      setCalendarName(data.summary || 'Calendar');
-      setError(null);
+      if (!updating) {
+        localStorage.setItem(`embed-key:${data.embed.id}`, data.editKey);
+        setSavedEmbed({ id: data.embed.id, editKey: data.editKey });
+        window.history.replaceState(null, '', `/?embed=${data.embed.id}`);
+      }
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to load calendar');
-      setEvents([]);
+      setSaveError(err instanceof Error ? err.message : 'Failed to save embed');
     } finally {
-      setLoading(false);
+      setSaving(false);
     }
-  }, [config.showPastEvents]);
+  };
 
-  // Auto-fetch when calendar URL changes
-  useEffect(() => {
-    if (config.calendarUrl) {
-      const timeoutId = setTimeout(() => {
-        fetchCalendarData(config.calendarUrl);
-      }, 500); // Debounce
-      return () => clearTimeout(timeoutId);
-    } else {
-      setEvents([]);
-      setCalendarName('');
-      setError(null);
+  const deleteSavedEmbed = async () => {
+    if (!savedEmbed?.editKey || !confirm('Delete this embed? Sites using it will stop showing the calendar.')) return;
+
+    setSaving(true);
+    setSaveError(null);
+
+    try {
+      const response = await fetch(`/api/embeds/${savedEmbed.id}`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${savedEmbed.editKey}` },
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to delete embed');
+      }
+
+      localStorage.removeItem(`embed-key:${savedEmbed.id}`);
+      setSavedEmbed(null);
+      window.history.replaceState(null, '', '/');
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : 'Failed to delete embed');
+    } finally {
+      setSaving(false);
     }
-  }, [config.calendarUrl, config.showPastEvents, fetchCalendarData]);
+  };
 
   // Generate embed code
   useEffect(() => {
-    if (config.calendarUrl && extractCalendarId(config.calendarUrl)) {
+    if (config.calendarUrl && parseCalendarSource(config.calendarUrl)) {
       const baseUrl = typeof window !== 'undefined' ? window.location.origin : '';
-      const queryString = configToQueryString(config);
-      const embedUrl = `${baseUrl}/embed?${queryString}`;
+      // Saved embeds pick up config changes without touching the iframe code
+      const embedUrl = savedEmbed
+        ? `${baseUrl}/embed/${savedEmbed.id}`
+        : `${baseUrl}/embed?${configToQueryString(config)}`;
       
       const code = `<iframe 
   src="${embedUrl}"
   style="border: none; width: ${config.width}; height: ${config.height}; min-height: ${config.minHeight};"
   loading="lazy"
+  allow="clipboard-write"
   title="Calendar"
 ></iframe>`;
       
       setEmbedCode(code);
+
+      // The loader element only needs the settings that differ from the defaults
+      const attributes = savedEmbed
+        ? [['embed-id', savedEmbed.id]]
+        : (Object.keys(config) as Array<keyof CalendarConfig>)
+            .filter(field => JSON.stringify(config[field]) !== JSON.stringify(defaultConfig[field]))
+            .map(field => [
+              configAttributeName(field),
+              typeof config[field] === 'object' ? JSON.stringify(config[field]) : String(config[field]),
+            ]);
+      const attributeLines = attributes
+        .map(([name, value]) => `\n  ${name}="${value.replace(/&/g, '&amp;').replace(/"/g, '&quot;')}"`)
+        .join('');
+
+      setElementCode(`<${EMBED_ELEMENT_NAME}${attributeLines}
+></${EMBED_ELEMENT_NAME}>
+<script src="${baseUrl}/embed.js" async></script>`);
     }
-  }, [config]);
+  }, [config, savedEmbed]);
 
   const copyToClipboard = async () => {
-    await navigator.clipboard.writeText(embedCode);
+    await navigator.clipboard.writeText(embedFormat === 'iframe' ? embedCode : elementCode);
     setCopied(true);
     setTimeout(() => setCopied(false), 2000);
   };
 
-  const isValidCalendar = extractCalendarId(config.calendarUrl) !== null;
+  const primarySource = parseCalendarSource(config.calendarUrl);
+  const isValidCalendar = primarySource !== null;
+
+  // Categories seen in the loaded events, suggested in category filter rules
+  const eventCategories = [...new Set(events.flatMap(event => event.categories ?? []))].sort();
+  // Feed URLs can be swapped for a server-side reference before embedding
+  const canRegister = (url: string) => {
+    const provider = parseCalendarSource(url)?.provider;
+    return provider !== undefined && provider !== 'google' && provider !== 'secret';
+  };
 
   return (
     <div className="min-h-screen bg-[#0a0a0a]">
@@ -152,18 +337,18 @@ function HomeContent() {
         <div className="mb-8">
           <div className="bg-zinc-900 rounded-2xl shadow-lg p-6 border border-zinc-800">
             <label className="block text-sm font-medium text-zinc-300 mb-2">
-              Google Calendar URL or Calendar ID
+              Calendar URL or Google Calendar ID
             </label>
             <div className="flex gap-4">
               <input
                 type="text"
                 value={config.calendarUrl}
                 onChange={(e) => updateConfig({ calendarUrl: e.target.value })}
-                placeholder="Paste your Google Calendar embed URL or calendar ID here..."
+                placeholder="Paste a Google Calendar ID, an .ics / webcal:// link, or an Outlook, iCloud or Nextcloud share link..."
                 className="flex-1 px-4 py-3 rounded-xl border border-zinc-700 bg-zinc-800 text-white placeholder-zinc-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               />
               <button
-                onClick={() => fetchCalendarData(config.calendarUrl)}
+                onClick={() => fetchCalendarData()}
                 disabled={!isValidCalendar || loading}
                 className="px-6 py-3 rounded-xl bg-blue-600 text-white font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center gap-2"
               >
@@ -179,11 +364,36 @@ function HomeContent() {
             </div>
             {config.calendarUrl && !isValidCalendar && (
               <p className="mt-2 text-sm text-red-400">
-                Please enter a valid Google Calendar embed URL or calendar ID
+                Please enter a valid Google Calendar ID or a calendar feed URL
+              </p>
+            )}
+            {primarySource?.provider === 'secret' && (
+              <p className="mt-2 text-sm text-green-400">
+                Private calendar registered on this server. The secret address is not included in the embed code.
               </p>
             )}
+            {canRegister(config.calendarUrl) && (
+              <div className="mt-3 flex items-center gap-3">
+                <button
+                  onClick={async () => {
+                    const source = await registerSecretAddress(config.calendarUrl);
+                    if (source) updateConfig({ calendarUrl: source });
+                  }}
+                  disabled={registering !== null}
+                  className="px-3 py-1.5 rounded-lg text-sm bg-zinc-800 text-zinc-200 hover:bg-zinc-700 disabled:opacity-50 transition-colors"
+                >
+                  {registering === config.calendarUrl ? 'Registering...' : 'Keep Address Private'}
+                </button>
+                <span className="text-xs text-zinc-500">
+                  Using a secret iCal address? Store it on the server so it never appears in the embed code.
+                </span>
+              </div>
+            )}
+            {registerError && (
+              <p className="mt-2 text-sm text-red-400">{registerError}</p>
+            )}
             <p className="mt-2 text-xs text-zinc-500">
-              Your calendar must be set to public. Find it in Google Calendar → Settings → Make available to public
+              Public calendars work as-is: find it in Google Calendar → Settings → Make available to public, or use the published / shared link from Outlook, iCloud or Nextcloud. Private calendars can use their secret iCal address.
             </p>
           </div>
         </div>
@@ -218,7 +428,7 @@ function HomeContent() {
                       View Mode
                     </label>
                     <div className="grid grid-cols-3 gap-2">
-                      {(['month', 'week', 'agenda'] as const).map((mode) => (
+                      {VIEW_MODES.map(({ mode, label }) => (
                         <button
                           key={mode}
                           onClick={() => updateConfig({ viewMode: mode })}
@@ -228,12 +438,337 @@ function HomeContent() {
                               : 'bg-zinc-800 text-zinc-300 hover:bg-zinc-700'
                           }`}
                         >
-                          {mode.charAt(0).toUpperCase() + mode.slice(1)}
+                          {label}
                         </button>
                       ))}
                     </div>
                   </div>
 
+                  {/* Overview Options */}
+                  {(config.viewMode === 'year' || config.viewMode === 'multiMonth') && (
+                    <div className="space-y-4">
+                      {config.viewMode === 'multiMonth' && (
+                        <div>
+                          <label className="block text-sm font-medium text-zinc-300 mb-2">
+                            Months Shown: {config.monthCount}
+                          </label>
+                          <input
+                            type="range"
+                            min="2"
+                            max="6"
+                            value={config.monthCount}
+                            onChange={(e) => updateConfig({ monthCount: Number(e.target.value) })}
+                            className="w-full h-2 bg-zinc-700 rounded-lg cursor-pointer slider"
+                            style={{
+                              accentColor: '#3b82f6',
+                            }}
+                          />
+                        </div>
+                      )}
+                      <div>
+                        <label className="block text-sm font-medium text-zinc-300 mb-2">
+                          Days With Events
+                        </label>
+                        <div className="grid grid-cols-2 gap-2">
+                          {([['dots', 'Dots'], ['heat', 'Heat Shading']] as const).map(([style, label]) => (
+                            <button
+                              key={style}
+                              onClick={() => updateConfig({ overviewStyle: style })}
+                              className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+                                config.overviewStyle === style
+                                  ? 'bg-blue-600 text-white'
+                                  : 'bg-zinc-800 text-zinc-300 hover:bg-zinc-700'
+                              }`}
+                            >
+                              {label}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Visible Hours */}
+                  {(config.viewMode === 'week' || config.viewMode === 'day') && (
+                    <div>
+                      <label className="block text-sm font-medium text-zinc-300 mb-2">
+                        Visible Hours
+                      </label>
+                      <div className="flex items-center gap-2">
+                        <select
+                          value={config.dayStartHour}
+                          onChange={(e) => updateConfig({ dayStartHour: Number(e.target.value) })}
+                          className="flex-1 px-4 py-2 rounded-lg border border-zinc-700 bg-zinc-800 text-white"
+                        >
+                          {Array.from({ length: 24 }, (_, hour) => (
+                            <option key={hour} value={hour} disabled={hour >= config.dayEndHour}>
+                              {`${String(hour).padStart(2, '0')}:00`}
+                            </option>
+                          ))}
+                        </select>
+                        <span className="text-sm text-zinc-500">to</span>
+                        <select
+                          value={config.dayEndHour}
+                          onChange={(e) => updateConfig({ dayEndHour: Number(e.target.value) })}
+                          className="flex-1 px-4 py-2 rounded-lg border border-zinc-700 bg-zinc-800 text-white"
+                        >
+                          {Array.from({ length: 24 }, (_, i) => i + 1).map(hour => (
+                            <option key={hour} value={hour} disabled={hour <= config.dayStartHour}>
+                              {`${String(hour).padStart(2, '0')}:00`}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Event Rows */}
+                  {(config.viewMode === 'month' || config.viewMode === 'week' || config.viewMode === 'day') && (
+                    <div>
+                      <label className="block text-sm font-medium text-zinc-300 mb-2">
+                        {config.viewMode === 'month' ? 'Event Rows Per Day' : 'All-Day Rows'}: {config.maxEventRows}
+                      </label>
+                      <input
+                        type="range"
+                        min="1"
+                        max="8"
+                        value={config.maxEventRows}
+                        onChange={(e) => updateConfig({ maxEventRows: Number(e.target.value) })}
+                        className="w-full h-2 bg-zinc-700 rounded-lg cursor-pointer slider"
+                        style={{
+                          accentColor: '#3b82f6',
+                        }}
+                      />
+                      <p className="text-xs text-zinc-500 mt-1">Extra events collapse into &quot;+N more&quot;</p>
+                    </div>
+                  )}
+
+                  {/* Agenda Options */}
+                  {config.viewMode === 'agenda' && (
+                    <div className="space-y-4">
+                      <div>
+                        <label className="block text-sm font-medium text-zinc-300 mb-2">
+                          Days Ahead: {config.agendaDaysAhead}
+                        </label>
+                        <input
+                          type="range"
+                          min="7"
+                          max="365"
+                          value={config.agendaDaysAhead}
+                          onChange={(e) => updateConfig({ agendaDaysAhead: Number(e.target.value) })}
+                          className="w-full h-2 bg-zinc-700 rounded-lg cursor-pointer slider"
+                          style={{
+                            accentColor: '#3b82f6',
+                          }}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-zinc-300 mb-2">
+                          Days Behind: {config.agendaDaysBehind}
+                        </label>
+                        <input
+                          type="range"
+                          min="0"
+                          max="90"
+                          value={config.agendaDaysBehind}
+                          onChange={(e) => updateConfig({ agendaDaysBehind: Number(e.target.value) })}
+                          className="w-full h-2 bg-zinc-700 rounded-lg cursor-pointer slider"
+                          style={{
+                            accentColor: '#3b82f6',
+                          }}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-zinc-300 mb-2">
+                          Events Per Page: {config.agendaMaxEvents}
+                        </label>
+                        <input
+                          type="range"
+                          min="5"
+                          max="100"
+                          step="5"
+                          value={config.agendaMaxEvents}
+                          onChange={(e) => updateConfig({ agendaMaxEvents: Number(e.target.value) })}
+                          className="w-full h-2 bg-zinc-700 rounded-lg cursor-pointer slider"
+                          style={{
+                            accentColor: '#3b82f6',
+                          }}
+                        />
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Additional Calendars */}
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <label className="block text-sm font-medium text-zinc-300">
+                        Additional Calendars
+                      </label>
+                      <button
+                        onClick={() => updateConfig({
+                          calendars: [
+                            ...config.calendars,
+                            {
+                              id: Math.random().toString(36).slice(2, 8),
+                              url: '',
+                              name: '',
+                              color: SOURCE_COLORS[config.calendars.length % SOURCE_COLORS.length],
+                            },
+                          ],
+                        })}
+                        className="text-sm text-blue-400 hover:text-blue-300"
+                      >
+                        + Add Calendar
+                      </button>
+                    </div>
+                    <p className="text-xs text-zinc-500 mb-3">
+                      Merged into the same embed, each in its own color. The main calendar uses the event fill color.
+                    </p>
+                    <div className="space-y-3">
+                      {config.calendars.map((calendar) => {
+                        const sourceError = calendars.find(info => info.sourceId === calendar.id)?.error;
+                        
+                        return (
+                          <div key={calendar.id} className="p-3 rounded-lg border border-zinc-700 bg-zinc-800/50 space-y-2">
+                            <input
+                              type="text"
+                              value={calendar.url}
+                              onChange={(e) => updateCalendar(calendar.id, { url: e.target.value })}
+                              placeholder="Calendar ID or feed URL"
+                              className="w-full px-3 py-2 rounded-lg border border-zinc-700 bg-zinc-800 text-white text-sm"
+                            />
+                            <div className="flex gap-2">
+                              <div className="relative">
+                                <input
+                                  type="color"
+                                  value={calendar.color}
+                                  onChange={(e) => updateCalendar(calendar.id, { color: e.target.value })}
+                                  className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+                                />
+                                <div 
+                                  className="w-10 h-9 rounded-lg border-2 border-zinc-600 cursor-pointer hover:border-blue-500 transition-colors"
+                                  style={{ backgroundColor: calendar.color }}
+                                />
+                              </div>
+                              <input
+                                type="text"
+                                value={calendar.name}
+                                onChange={(e) => updateCalendar(calendar.id, { name: e.target.value })}
+                                placeholder="Display name"
+                                className="flex-1 px-3 py-2 rounded-lg border border-zinc-700 bg-zinc-800 text-white text-sm"
+                              />
+                              <button
+                                onClick={() => updateConfig({ calendars: config.calendars.filter(c => c.id !== calendar.id) })}
+                                className="px-3 py-2 rounded-lg text-sm text-zinc-400 hover:text-red-400 hover:bg-zinc-800 transition-colors"
+                              >
+                                Remove
+                              </button>
+                            </div>
+                            {calendar.url && !parseCalendarSource(calendar.url) && (
+                              <p className="text-xs text-red-400">Not a valid calendar ID or URL</p>
+                            )}
+                            {canRegister(calendar.url) && (
+                              <button
+                                onClick={async () => {
+                                  const source = await registerSecretAddress(calendar.url);
+                                  if (source) updateCalendar(calendar.id, { url: source });
+                                }}
+                                disabled={registering !== null}
+                                className="text-xs text-blue-400 hover:text-blue-300 disabled:opacity-50"
+                              >
+                                {registering === calendar.url ? 'Registering...' : 'Keep address private'}
+                              </button>
+                            )}
+                            {sourceError && (
+                              <p className="text-xs text-red-400">{sourceError}</p>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+
+                  {/* Language & Region */}
+                  <div className="space-y-4">
+                    <div>
+                      <label className="block text-sm font-medium text-zinc-300 mb-2">
+                        Language
+                      </label>
+                      <select
+                        value={config.locale}
+                        onChange={(e) => updateConfig({ locale: e.target.value })}
+                        className="w-full px-4 py-2 rounded-lg border border-zinc-700 bg-zinc-800 text-white"
+                      >
+                        {LOCALES.map(({ value, label }) => (
+                          <option key={value} value={value}>{label}</option>
+                        ))}
+                        {!LOCALES.some(({ value }) => value === config.locale) && (
+                          <option value={config.locale}>{config.locale}</option>
+                        )}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-zinc-300 mb-2">
+                        Display Timezone
+                      </label>
+                      <select
+                        value={config.displayTimeZone}
+                        onChange={(e) => updateConfig({ displayTimeZone: e.target.value })}
+                        className="w-full px-4 py-2 rounded-lg border border-zinc-700 bg-zinc-800 text-white"
+                      >
+                        <option value="viewer">Visitor&apos;s timezone</option>
+                        <option value="calendar">Calendar&apos;s timezone</option>
+                        <optgroup label="Fixed timezone">
+                          {getTimeZones().map(zone => (
+                            <option key={zone} value={zone}>{zone.replace(/_/g, ' ')}</option>
+                          ))}
+                        </optgroup>
+                      </select>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-sm font-medium text-zinc-300 mb-2">
+                          Clock
+                        </label>
+                        <div className="grid grid-cols-2 gap-2">
+                          {([[true, '12h'], [false, '24h']] as const).map(([hour12, label]) => (
+                            <button
+                              key={label}
+                              onClick={() => updateConfig({ hour12 })}
+                              className={`px-3 py-2 rounded-lg text-sm font-medium transition-all ${
+                                config.hour12 === hour12
+                                  ? 'bg-blue-600 text-white'
+                                  : 'bg-zinc-800 text-zinc-300 hover:bg-zinc-700'
+                              }`}
+                            >
+                              {label}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-zinc-300 mb-2">
+                          Week Starts On
+                        </label>
+                        <div className="grid grid-cols-2 gap-2">
+                          {([[0, 'Sun'], [1, 'Mon']] as const).map(([day, label]) => (
+                            <button
+                              key={day}
+                              onClick={() => updateConfig({ weekStartsOn: day })}
+                              className={`px-3 py-2 rounded-lg text-sm font-medium transition-all ${
+                                config.weekStartsOn === day
+                                  ? 'bg-blue-600 text-white'
+                                  : 'bg-zinc-800 text-zinc-300 hover:bg-zinc-700'
+                              }`}
+                            >
+                              {label}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+
                   {/* Display Options */}
                   <div>
                     <label className="block text-sm font-medium text-zinc-300 mb-3">
@@ -246,6 +781,13 @@ function HomeContent() {
                         { key: 'showDate', label: 'Show Current Date' },
                         { key: 'showTodayButton', label: 'Show Today Button' },
                         { key: 'showPastEvents', label: 'Show Past Events (Last Year)' },
+                        { key: 'showTabs', label: 'Show Category Tabs' },
+                        { key: 'showCalendars', label: 'Show Calendar Legend' },
+                        { key: 'showTimezone', label: 'Show Timezone Selector' },
+                        { key: 'showSubscribe', label: 'Show Subscribe Link' },
+                        { key: 'showColorLegend', label: 'Show Color Legend' },
+                        { key: 'showSearch', label: 'Show Search Box' },
+                        { key: 'showPrint', label: 'Show Print Button' },
                       ].map(({ key, label }) => (
                         <label key={key} className="flex items-center gap-3 cursor-pointer">
                           <input
@@ -262,6 +804,13 @@ function HomeContent() {
                 </>
               )}
 
+              {/* Category suggestions for filter and color rules */}
+              <datalist id="event-categories">
+                {eventCategories.map(category => (
+                  <option key={category} value={category} />
+                ))}
+              </datalist>
+
               {/* Styling Tab */}
               {activeTab === 'styling' && (
                 <>
@@ -372,6 +921,113 @@ function HomeContent() {
                     </div>
                   </div>
 
+                  {/* Color Rules Section */}
+                  <div className="space-y-4">
+                    <div className="flex items-center justify-between">
+                      <h3 className="text-sm font-semibold text-zinc-200">Color Rules</h3>
+                      <button
+                        onClick={() => updateConfig({
+                          colorRules: [
+                            ...config.colorRules,
+                            {
+                              id: Math.random().toString(36).slice(2, 8),
+                              field: 'title',
+                              value: '',
+                              label: '',
+                              color: SOURCE_COLORS[config.colorRules.length % SOURCE_COLORS.length],
+                              opacity: config.eventOpacity,
+                              borderColor: SOURCE_COLORS[config.colorRules.length % SOURCE_COLORS.length],
+                            },
+                          ],
+                        })}
+                        className="text-sm text-blue-400 hover:text-blue-300"
+                      >
+                        + Add Rule
+                      </button>
+                    </div>
+                    <p className="text-xs text-zinc-500">
+                      Color events by a word in their title, a category, or the color set in the calendar feed. The first matching rule wins, and the legend shows each rule&apos;s label.
+                    </p>
+                    <div className="space-y-3">
+                      {config.colorRules.map((rule) => (
+                        <div key={rule.id} className="p-3 rounded-lg border border-zinc-700 bg-zinc-800/50 space-y-2">
+                          <div className="flex gap-2">
+                            <select
+                              value={rule.field}
+                              onChange={(e) => updateColorRule(rule.id, { field: e.target.value as EventColorRule['field'] })}
+                              className="px-3 py-2 rounded-lg border border-zinc-700 bg-zinc-800 text-white text-sm"
+                            >
+                              <option value="title">Title contains</option>
+                              <option value="category">Category is</option>
+                              <option value="color">Feed color is</option>
+                            </select>
+                            <input
+                              type="text"
+                              value={rule.value}
+                              onChange={(e) => updateColorRule(rule.id, { value: e.target.value })}
+                              placeholder={rule.field === 'color' ? 'e.g. red or #ff0000' : 'e.g. Varsity'}
+                              list={rule.field === 'category' ? 'event-categories' : undefined}
+                              className="flex-1 px-3 py-2 rounded-lg border border-zinc-700 bg-zinc-800 text-white text-sm"
+                            />
+                          </div>
+                          <div className="flex gap-2">
+                            <div className="relative" title="Fill color">
+                              <input
+                                type="color"
+                                value={rule.color}
+                                onChange={(e) => updateColorRule(rule.id, { color: e.target.value })}
+                                className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+                              />
+                              <div
+                                className="w-10 h-9 rounded-lg border-2 border-zinc-600 cursor-pointer hover:border-blue-500 transition-colors"
+                                style={{ backgroundColor: rule.color }}
+                              />
+                            </div>
+                            <div className="relative" title="Border color">
+                              <input
+                                type="color"
+                                value={rule.borderColor}
+                                onChange={(e) => updateColorRule(rule.id, { borderColor: e.target.value })}
+                                className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+                              />
+                              <div
+                                className="w-10 h-9 rounded-lg border-4 bg-zinc-800 cursor-pointer transition-colors"
+                                style={{ borderColor: rule.borderColor }}
+                              />
+                            </div>
+                            <input
+                              type="text"
+                              value={rule.label}
+                              onChange={(e) => updateColorRule(rule.id, { label: e.target.value })}
+                              placeholder="Legend label"
+                              className="flex-1 px-3 py-2 rounded-lg border border-zinc-700 bg-zinc-800 text-white text-sm"
+                            />
+                            <button
+                              onClick={() => updateConfig({ colorRules: config.colorRules.filter(r => r.id !== rule.id) })}
+                              className="px-3 py-2 rounded-lg text-sm text-zinc-400 hover:text-red-400 hover:bg-zinc-800 transition-colors"
+                            >
+                              Remove
+                            </button>
+                          </div>
+                          <div>
+                            <label className="block text-xs text-zinc-400 mb-1">
+                              Fill Opacity: {rule.opacity}%
+                            </label>
+                            <input
+                              type="range"
+                              min="0"
+                              max="100"
+                              value={rule.opacity}
+                              onChange={(e) => updateColorRule(rule.id, { opacity: Number(e.target.value) })}
+                              className="w-full h-2 bg-zinc-700 rounded-lg cursor-pointer slider"
+                              style={{ accentColor: '#3b82f6' }}
+                            />
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+
                   {/* Calendar Colors Section */}
                   <div className="space-y-4">
                     <div className="flex items-center justify-between">
@@ -574,6 +1230,238 @@ function HomeContent() {
               {/* Advanced Tab */}
               {activeTab === 'advanced' && (
                 <>
+                  {/* Event Filters */}
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <label className="block text-sm font-medium text-zinc-300">
+                        Event Filters
+                      </label>
+                      {config.filters.length < MAX_FILTER_RULES && (
+                        <button
+                          onClick={() => updateConfig({
+                            filters: [
+                              ...config.filters,
+                              {
+                                id: Math.random().toString(36).slice(2, 8),
+                                action: 'hide',
+                                field: 'title',
+                                match: 'contains',
+                                value: '',
+                              },
+                            ],
+                          })}
+                          className="text-sm text-blue-400 hover:text-blue-300"
+                        >
+                          + Add Rule
+                        </button>
+                      )}
+                    </div>
+                    <p className="text-xs text-zinc-500 mb-3">
+                      Hidden events are removed on the server and never reach the page. Once there is a &quot;Show only&quot; rule, events have to match one of them.
+                    </p>
+                    <div className="space-y-3">
+                      {config.filters.map((rule) => {
+                        const needsValue = rule.field !== 'allDay' && rule.field !== 'timed';
+
+                        return (
+                          <div key={rule.id} className="p-3 rounded-lg border border-zinc-700 bg-zinc-800/50 space-y-2">
+                            <div className="flex gap-2">
+                              <select
+                                value={rule.action}
+                                onChange={(e) => updateFilter(rule.id, { action: e.target.value as EventFilterRule['action'] })}
+                                className="px-3 py-2 rounded-lg border border-zinc-700 bg-zinc-800 text-white text-sm"
+                              >
+                                <option value="hide">Hide</option>
+                                <option value="show">Show only</option>
+                              </select>
+                              <select
+                                value={rule.field}
+                                onChange={(e) => updateFilter(rule.id, { field: e.target.value as EventFilterRule['field'] })}
+                                className="flex-1 px-3 py-2 rounded-lg border border-zinc-700 bg-zinc-800 text-white text-sm"
+                              >
+                                {FILTER_FIELDS.map(({ field, label }) => (
+                                  <option key={field} value={field}>{label}</option>
+                                ))}
+                              </select>
+                              <button
+                                onClick={() => updateConfig({ filters: config.filters.filter(r => r.id !== rule.id) })}
+                                className="px-3 py-2 rounded-lg text-sm text-zinc-400 hover:text-red-400 hover:bg-zinc-800 transition-colors"
+                              >
+                                Remove
+                              </button>
+                            </div>
+                            {needsValue && (
+                              <div className="flex gap-2">
+                                <select
+                                  value={rule.match}
+                                  onChange={(e) => updateFilter(rule.id, { match: e.target.value as EventFilterRule['match'] })}
+                                  className="px-3 py-2 rounded-lg border border-zinc-700 bg-zinc-800 text-white text-sm"
+                                >
+                                  <option value="contains">contains</option>
+                                  <option value="regex">matches regex</option>
+                                </select>
+                                <input
+                                  type="text"
+                                  value={rule.value}
+                                  onChange={(e) => updateFilter(rule.id, { value: e.target.value })}
+                                  placeholder={rule.field === 'category' ? 'e.g. Varsity' : 'Text to match'}
+                                  list={rule.field === 'category' ? 'event-categories' : undefined}
+                                  className="flex-1 px-3 py-2 rounded-lg border border-zinc-700 bg-zinc-800 text-white text-sm"
+                                />
+                              </div>
+                            )}
+                            {needsValue && rule.match === 'regex' && !isValidPattern(rule.value) && (
+                              <p className="text-xs text-red-400">Not a valid regular expression, or it repeats a repeated group like (a+)+</p>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+
+                  {/* Tab Groups */}
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <label className="block text-sm font-medium text-zinc-300">
+                        Tab Groups
+                      </label>
+                      <button
+                        onClick={() => updateConfig({
+                          tabGroups: [
+                            ...config.tabGroups,
+                            {
+                              id: Math.random().toString(36).slice(2, 8),
+                              label: '',
+                              field: 'category',
+                              value: '',
+                            },
+                          ],
+                        })}
+                        className="text-sm text-blue-400 hover:text-blue-300"
+                      >
+                        + Add Tab
+                      </button>
+                    </div>
+                    <p className="text-xs text-zinc-500 mb-3">
+                      With Show Category Tabs on, the header gets an &quot;All&quot; tab plus one per event category, or these tabs if you add any.
+                    </p>
+                    <div className="space-y-3">
+                      {config.tabGroups.map((group) => (
+                        <div key={group.id} className="p-3 rounded-lg border border-zinc-700 bg-zinc-800/50 space-y-2">
+                          <div className="flex gap-2">
+                            <input
+                              type="text"
+                              value={group.label}
+                              onChange={(e) => updateTabGroup(group.id, { label: e.target.value })}
+                              placeholder="Tab name"
+                              className="flex-1 px-3 py-2 rounded-lg border border-zinc-700 bg-zinc-800 text-white text-sm"
+                            />
+                            <button
+                              onClick={() => updateConfig({ tabGroups: config.tabGroups.filter(g => g.id !== group.id) })}
+                              className="px-3 py-2 rounded-lg text-sm text-zinc-400 hover:text-red-400 hover:bg-zinc-800 transition-colors"
+                            >
+                              Remove
+                            </button>
+                          </div>
+                          <div className="flex gap-2">
+                            <select
+                              value={group.field}
+                              onChange={(e) => updateTabGroup(group.id, { field: e.target.value as EventTabGroup['field'] })}
+                              className="px-3 py-2 rounded-lg border border-zinc-700 bg-zinc-800 text-white text-sm"
+                            >
+                              <option value="category">Category is</option>
+                              <option value="title">Title contains</option>
+                            </select>
+                            <input
+                              type="text"
+                              value={group.value}
+                              onChange={(e) => updateTabGroup(group.id, { value: e.target.value })}
+                              placeholder="e.g. Varsity"
+                              list={group.field === 'category' ? 'event-categories' : undefined}
+                              className="flex-1 px-3 py-2 rounded-lg border border-zinc-700 bg-zinc-800 text-white text-sm"
+                            />
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+
+                  {/* Printable Schedule */}
+                  <div>
+                    <label className="block text-sm font-medium text-zinc-300 mb-2">
+                      Printable Schedule
+                    </label>
+                    <div className="grid grid-cols-2 gap-2">
+                      <input
+                        type="date"
+                        value={printRange.start}
+                        onChange={(e) => setPrintRange(range => ({ ...range, start: e.target.value }))}
+                        aria-label="First day"
+                        className="px-3 py-2 rounded-lg border border-zinc-700 bg-zinc-800 text-white text-sm"
+                      />
+                      <input
+                        type="date"
+                        value={printRange.end}
+                        onChange={(e) => setPrintRange(range => ({ ...range, end: e.target.value }))}
+                        aria-label="Last day"
+                        className="px-3 py-2 rounded-lg border border-zinc-700 bg-zinc-800 text-white text-sm"
+                      />
+                    </div>
+                    <div className="flex gap-2 mt-2">
+                      <select
+                        value={printRange.layout}
+                        onChange={(e) => setPrintRange(range => ({ ...range, layout: e.target.value as 'month' | 'list' }))}
+                        className="flex-1 px-3 py-2 rounded-lg border border-zinc-700 bg-zinc-800 text-white text-sm"
+                      >
+                        <option value="month">Month grids</option>
+                        <option value="list">Day-by-day list</option>
+                      </select>
+                      {config.calendarUrl && printRange.start && printRange.end && (
+                        <a
+                          href={calendarPrintUrl(config, printRange.start, printRange.end, printRange.layout)}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="px-4 py-2 rounded-lg bg-zinc-700 text-white text-sm hover:bg-zinc-600"
+                        >
+                          Open
+                        </a>
+                      )}
+                    </div>
+                    <p className="text-xs text-zinc-500 mt-2">
+                      A standalone page of the calendar for these days, ready to print or save as PDF
+                    </p>
+                  </div>
+
+                  {/* Calendar Image */}
+                  <div>
+                    <label className="block text-sm font-medium text-zinc-300 mb-2">
+                      Calendar Image
+                    </label>
+                    <div className="flex gap-2">
+                      <select
+                        value={imageLayout}
+                        onChange={(e) => setImageLayout(e.target.value as 'month' | 'list')}
+                        className="flex-1 px-3 py-2 rounded-lg border border-zinc-700 bg-zinc-800 text-white text-sm"
+                      >
+                        <option value="month">This month</option>
+                        <option value="list">Upcoming events</option>
+                      </select>
+                      {config.calendarUrl && (
+                        <a
+                          href={calendarImageUrl(config, imageLayout, savedEmbed?.id)}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="px-4 py-2 rounded-lg bg-zinc-700 text-white text-sm hover:bg-zinc-600"
+                        >
+                          Open
+                        </a>
+                      )}
+                    </div>
+                    <p className="text-xs text-zinc-500 mt-2">
+                      A PNG that stays up to date, for newsletters and screens that can&apos;t show the embed. Add format=svg for SVG.
+                    </p>
+                  </div>
+
                   {/* Size Settings */}
                   <div className="grid grid-cols-2 gap-4">
                     <div>
@@ -674,6 +1562,23 @@ function HomeContent() {
                       Enable Responsive Resizing
                     </span>
                   </label>
+
+                  {/* Allowed Parent Origins */}
+                  <div>
+                    <label className="block text-sm font-medium text-zinc-300 mb-2">
+                      Allowed Parent Origins
+                    </label>
+                    <textarea
+                      value={config.allowedOrigins.join('\n')}
+                      onChange={(e) => updateConfig({ allowedOrigins: e.target.value.split('\n') })}
+                      placeholder="https://www.example.com"
+                      rows={3}
+                      className="w-full px-4 py-2 rounded-lg border border-zinc-700 bg-zinc-800 text-white text-sm font-mono"
+                    />
+                    <p className="text-xs text-zinc-500 mt-2">
+                      One per line. Only these pages can control the embed or hear its events over postMessage; left empty, pages only hear when it&apos;s ready, resized or failed. Save the embed to enforce this, as a link&apos;s parameters can be edited.
+                    </p>
+                  </div>
                 </>
               )}
             </div>
@@ -686,7 +1591,7 @@ function HomeContent() {
               <div className="px-6 py-4 border-b border-zinc-800 flex items-center justify-between">
                 <h3 className="font-semibold text-white">Live Preview</h3>
                 <button
-                  onClick={() => fetchCalendarData(config.calendarUrl)}
+                  onClick={() => fetchCalendarData()}
                   disabled={!isValidCalendar || loading}
                   className="text-sm text-blue-400 hover:text-blue-300 flex items-center gap-1 disabled:opacity-50"
                 >
@@ -702,8 +1607,13 @@ function HomeContent() {
                     events={events}
                     config={config}
                     calendarName={calendarName}
+                    calendarTimeZone={timeZone}
+                    calendars={calendars}
                     loading={loading}
                     error={error}
+                    onLoadMore={loadMore}
+                    loadingMore={loadingMore}
+                    hasMore={hasMore}
                   />
                 ) : (
                   <div className="flex items-center justify-center h-64 text-zinc-500">
@@ -711,7 +1621,7 @@ function HomeContent() {
                       <svg className="w-16 h-16 mx-auto mb-4 opacity-50" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
                       </svg>
-                      <p>Enter a Google Calendar URL to see preview</p>
+                      <p>Enter a calendar URL to see preview</p>
                     </div>
                   </div>
                 )}
@@ -722,7 +1632,25 @@ function HomeContent() {
             {isValidCalendar && (
               <div className="bg-zinc-900 rounded-2xl shadow-lg border border-zinc-800 overflow-hidden">
                 <div className="px-6 py-4 border-b border-zinc-800 flex items-center justify-between">
-                  <h3 className="font-semibold text-white">Embed Code</h3>
+                  <div className="flex items-center gap-3">
+                    <h3 className="font-semibold text-white">Embed Code</h3>
+                    <div className="flex rounded-lg bg-zinc-800 p-0.5">
+                      {([
+                        { format: 'iframe', label: 'iframe' },
+                        { format: 'element', label: 'Script' },
+                      ] as const).map(({ format, label }) => (
+                        <button
+                          key={format}
+                          onClick={() => setEmbedFormat(format)}
+                          className={`px-3 py-1 rounded-md text-xs font-medium transition-colors ${
+                            embedFormat === format ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:text-zinc-200'
+                          }`}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
                   <button
                     onClick={copyToClipboard}
                     className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${
@@ -734,10 +1662,61 @@ function HomeContent() {
                     {copied ? '✓ Copied!' : 'Copy Code'}
                   </button>
                 </div>
-                <div className="p-4">
+                <div className="p-4 space-y-4">
                   <pre className="bg-zinc-950 text-zinc-300 p-4 rounded-xl text-sm overflow-x-auto border border-zinc-800">
-                    <code>{embedCode}</code>
+                    <code>{embedFormat === 'iframe' ? embedCode : elementCode}</code>
                   </pre>
+                  {embedFormat === 'element' && (
+                    <p className="text-xs text-zinc-500">
+                      The script sizes the calendar to fit and lets your page control it, e.g.{' '}
+                      <code className="text-zinc-400">document.querySelector(&apos;{EMBED_ELEMENT_NAME}&apos;).goToDate(&apos;2026-12-01&apos;)</code>
+                    </p>
+                  )}
+                  <div className="flex flex-wrap items-center gap-2">
+                    {savedEmbed?.editKey ? (
+                      <>
+                        <button
+                          onClick={() => saveEmbed()}
+                          disabled={saving}
+                          className="px-4 py-2 rounded-lg text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                        >
+                          {saving ? 'Saving...' : 'Update Embed'}
+                        </button>
+                        <button
+                          onClick={() => saveEmbed(true)}
+                          disabled={saving}
+                          className="px-4 py-2 rounded-lg text-sm font-medium bg-zinc-800 text-zinc-200 hover:bg-zinc-700 disabled:opacity-50 transition-colors"
+                        >
+                          Save as New
+                        </button>
+                        <button
+                          onClick={deleteSavedEmbed}
+                          disabled={saving}
+                          className="px-4 py-2 rounded-lg text-sm text-zinc-400 hover:text-red-400 disabled:opacity-50 transition-colors"
+                        >
+                          Delete
+                        </button>
+                      </>
+                    ) : (
+                      <button
+                        onClick={() => saveEmbed(true)}
+                        disabled={saving}
+                        className="px-4 py-2 rounded-lg text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                      >
+                        {saving ? 'Saving...' : savedEmbed ? 'Save as New Embed' : 'Save Embed'}
+                      </button>
+                    )}
+                  </div>
+                  <p className="text-xs text-zinc-500">
+                    {savedEmbed?.editKey
+                      ? 'Updates apply to every site using this embed code. Bookmark this page to edit the embed later.'
+                      : savedEmbed
+                        ? 'This embed was created in another browser, so it can only be copied, not changed.'
+                        : 'Save the embed to get a short link you can keep editing after it is on your site.'}
+                  </p>
+                  {saveError && (
+                    <p className="text-sm text-red-400">{saveError}</p>
+                  )}
                 </div>
               </div>
             )}
@@ -1,18 +1,75 @@
+export interface CalendarSourceConfig {
+  id: string;        // Tags merged events as CalendarEvent.sourceId
+  url: string;       // Anything parseCalendarSource accepts
+  name: string;
+  color: string;
+}
+
+// One rule of the embed's event filter. Events matching a "hide" rule are
+// left out; once there is a "show" rule, only events matching one are kept.
+export interface EventFilterRule {
+  id: string;
+  action: 'show' | 'hide';
+  field: 'title' | 'location' | 'category' | 'allDay' | 'timed';
+  match: 'contains' | 'regex';       // How `value` is compared; unused for allDay/timed
+  value: string;
+}
+
+// Colors events by a keyword in their title, a category, or the color the
+// feed gave them (iCal COLOR). The first matching rule wins.
+export interface EventColorRule {
+  id: string;
+  field: 'title' | 'category' | 'color';
+  value: string;
+  label: string;                     // Shown in the color legend
+  color: string;                     // Fill color
+  opacity: number;                   // Fill opacity (0-100)
+  borderColor: string;
+}
+
+// A tab in the embed header showing only the events that match it
+export interface EventTabGroup {
+  id: string;
+  label: string;                     // Tab text, also used in the URL hash
+  field: 'title' | 'category';
+  value: string;
+}
+
 export interface CalendarConfig {
   // Google Calendar Settings
   calendarUrl: string;
+  calendars: CalendarSourceConfig[];   // Additional calendars merged into the embed
+  filters: EventFilterRule[];          // Applied by /api/calendar before events reach the browser
   
   // View Options
-  viewMode: 'month' | 'week' | 'agenda';
+  viewMode: 'month' | 'week' | 'day' | 'agenda' | 'year' | 'multiMonth';
+  monthCount: number;                  // Months shown side by side in the multiMonth view (2-6)
+  overviewStyle: 'dots' | 'heat';      // How year/multiMonth views mark days with events
+  agendaDaysBehind: number;            // Past days included in the agenda
+  agendaDaysAhead: number;             // Days loaded ahead, and per "load more"
+  agendaMaxEvents: number;             // Events shown before "load more"
+  dayStartHour: number;                // First hour shown in the day/week time grid (0-23)
+  dayEndHour: number;                  // Hour the time grid ends at (1-24)
+  maxEventRows: number;                // Event rows per day cell before "+N more"
   showTitle: boolean;
   showNavigation: boolean;
   showDate: boolean;
   showTodayButton: boolean;
   showPastEvents: boolean;
-  showPrint: boolean;
-  showTabs: boolean;
+  showPrint: boolean;                  // "Print" button in the header, for what the view shows
+  showTabs: boolean;                   // Category tabs in the header, plus "All"
+  tabGroups: EventTabGroup[];          // Tabs to show instead of one per event category
   showCalendars: boolean;
   showTimezone: boolean;
+  showSubscribe: boolean;              // "Subscribe" link to the calendar's webcal:// feed
+  showColorLegend: boolean;            // Legend explaining the color rules
+  showSearch: boolean;                 // Search box in the header
+  
+  // Language & Region
+  locale: string;                      // BCP 47 tag for dates and UI strings, e.g. 'fr-FR'
+  hour12: boolean;                     // 12-hour clock instead of 24-hour
+  weekStartsOn: number;                // First weekday column, 0 = Sunday, 1 = Monday
+  displayTimeZone: string;             // 'viewer', 'calendar', or an IANA zone such as 'Europe/Paris'
   
   // Styling
   theme: 'light' | 'dark' | 'auto';
@@ -21,6 +78,7 @@ export interface CalendarConfig {
   eventOpacity: number;          // Event background opacity (0-100)
   eventBorderColor: string;      // Event border color
   eventBorderOpacity: number;    // Event border opacity (0-100)
+  colorRules: EventColorRule[];
   backgroundColor: string;
   textColor: string;
   borderRadius: number;
@@ -40,12 +98,25 @@ export interface CalendarConfig {
   // Squarespace Specific
   squarespaceMode: boolean;
   containerPadding: number;
+
+  // Host Page API
+  allowedOrigins: string[];            // Origins of pages allowed to message the embed and hear its events
 }
 
 export const defaultConfig: CalendarConfig = {
   calendarUrl: '',
+  calendars: [],
+  filters: [],
   
   viewMode: 'month',
+  monthCount: 3,
+  overviewStyle: 'dots',
+  agendaDaysBehind: 0,
+  agendaDaysAhead: 30,
+  agendaMaxEvents: 25,
+  dayStartHour: 6,
+  dayEndHour: 22,
+  maxEventRows: 3,
   showTitle: true,
   showNavigation: true,
   showDate: true,
@@ -53,8 +124,17 @@ export const defaultConfig: CalendarConfig = {
   showPastEvents: true,
   showPrint: false,
   showTabs: true,
+  tabGroups: [],
   showCalendars: true,
   showTimezone: false,
+  showSubscribe: false,
+  showColorLegend: true,
+  showSearch: false,
+  
+  locale: 'en-US',
+  hour12: true,
+  weekStartsOn: 0,
+  displayTimeZone: 'viewer',
   
   theme: 'light',
   accentColor: '#4285f4',
@@ -62,6 +142,7 @@ export const defaultConfig: CalendarConfig = {
   eventOpacity: 30,
   eventBorderColor: '#4285f4',
   eventBorderOpacity: 100,
+  colorRules: [],
   backgroundColor: '#ffffff',
   textColor: '#333333',
   borderRadius: 12,
@@ -79,8 +160,12 @@ export const defaultConfig: CalendarConfig = {
   
   squarespaceMode: false,
   containerPadding: 0,
+
+  allowedOrigins: [],
 };
 
+export const VIEW_MODES: Array<CalendarConfig['viewMode']> = ['month', 'week', 'day', 'agenda', 'year', 'multiMonth'];
+
 export function extractCalendarId(url: string): string | null {
   // Handle various Google Calendar URL formats
   
@@ -113,38 +198,426 @@ export function extractCalendarId(url: string): string | null {
   return null;
 }
 
+export type CalendarProvider = 'google' | 'outlook' | 'icloud' | 'nextcloud' | 'ics' | 'secret';
+
+export interface CalendarSource {
+  provider: CalendarProvider;
+  // Google Calendar ID for 'google', the registered ID for 'secret',
+  // otherwise the https:// URL of the iCal feed
+  id: string;
+}
+
+const SECRET_SOURCE_PREFIX = 'secret:';
+
+// Reference to a secret address registered on the server (see /api/sources)
+export function secretSourceRef(id: string): string {
+  return `${SECRET_SOURCE_PREFIX}${id}`;
+}
+
+export function parseCalendarSource(input: string): CalendarSource | null {
+  const trimmed = input.trim();
+  if (!trimmed) return null;
+
+  if (trimmed.startsWith(SECRET_SOURCE_PREFIX)) {
+    const id = trimmed.slice(SECRET_SOURCE_PREFIX.length);
+    return /^[\w-]+$/.test(id) ? { provider: 'secret', id } : null;
+  }
+
+  const isUrl = /^(https?|webcal):\/\//i.test(trimmed);
+
+  // Google Calendar IDs, embed URLs and public iCal URLs. Secret iCal
+  // addresses (private-<token>/basic.ics) are fetched like any other feed.
+  if (!isUrl || (/calendar\.google\.com/i.test(trimmed) && !/calendar\/ical\/[^/]+\/private-/.test(trimmed))) {
+    const calendarId = extractCalendarId(trimmed);
+    return calendarId ? { provider: 'google', id: calendarId } : null;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(trimmed.replace(/^webcal:/i, 'https:'));
+  } catch {
+    return null;
+  }
+
+  // Outlook / Office 365 published calendars share a calendar.html page
+  // next to the calendar.ics feed
+  if (/(^|\.)outlook\.(office365|office|live)\.com$/i.test(url.hostname)) {
+    url.pathname = url.pathname.replace(/\.html$/i, '.ics');
+    return { provider: 'outlook', id: url.toString() };
+  }
+
+  // iCloud public calendars are shared as webcal://pXX-caldav.icloud.com/published/...
+  if (/(^|\.)icloud\.com$/i.test(url.hostname)) {
+    return { provider: 'icloud', id: url.toString() };
+  }
+
+  // Nextcloud public share links: /apps/calendar/p/<token> -> public-calendars/<token>?export
+  const nextcloudShare = url.pathname.match(/^(.*?)\/(?:index\.php\/)?apps\/calendar\/p\/([^/]+)/);
+  if (nextcloudShare) {
+    return {
+      provider: 'nextcloud',
+      id: `${url.origin}${nextcloudShare[1]}/remote.php/dav/public-calendars/${nextcloudShare[2]}?export`,
+    };
+  }
+  if (url.pathname.includes('/remote.php/dav/public-calendars/')) {
+    if (!url.searchParams.has('export')) {
+      url.search = url.search ? `${url.search}&export` : '?export';
+    }
+    return { provider: 'nextcloud', id: url.toString() };
+  }
+
+  return { provider: 'ics', id: url.toString() };
+}
+
+// webcal:// address for subscribing to a calendar from another app. Secret
+// addresses registered on the server have none, as they must stay private.
+export function calendarSubscribeUrl(input: string): string | null {
+  const source = parseCalendarSource(input);
+  if (!source || source.provider === 'secret') return null;
+
+  const feedUrl = source.provider === 'google'
+    ? `https://calendar.google.com/calendar/ical/${encodeURIComponent(source.id)}/public/basic.ics`
+    : source.id;
+  return feedUrl.replace(/^https?:/i, 'webcal:');
+}
+
+// The primary calendar (calendarUrl) followed by any additional calendars
+export function getCalendarSources(config: CalendarConfig): CalendarSourceConfig[] {
+  const primary: CalendarSourceConfig = {
+    id: 'primary',
+    url: config.calendarUrl,
+    name: '',
+    color: config.eventColor,
+  };
+  return [primary, ...config.calendars].filter(source => parseCalendarSource(source.url) !== null);
+}
+
+const FILTER_ACTIONS: EventFilterRule['action'][] = ['show', 'hide'];
+const FILTER_FIELDS: EventFilterRule['field'][] = ['title', 'location', 'category', 'allDay', 'timed'];
+const FILTER_MATCHES: EventFilterRule['match'][] = ['contains', 'regex'];
+
+// Filter rules are evaluated on the server, so their number and size are capped
+export const MAX_FILTER_RULES = 20;
+const MAX_FILTER_VALUE_LENGTH = 200;
+
+// Whether a filter regex is safe to run on the server. Patterns that can
+// backtrack exponentially are refused: a repeated group that itself repeats
+// something, like (a+)+, and backreferences.
+export function isSafeFilterPattern(pattern: string): boolean {
+  const groups: boolean[] = [];   // Per open group, whether it repeats anything
+  const isRepeat = (char: string | undefined) => char === '*' || char === '+' || char === '{';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\') {
+      if (/[1-9k]/.test(pattern[i + 1] ?? '')) return false;
+      i++;
+    } else if (char === '[') {
+      for (i++; i < pattern.length && pattern[i] !== ']'; i++) {
+        if (pattern[i] === '\\') i++;
+      }
+    } else if (char === '(') {
+      groups.push(false);
+    } else if (char === ')') {
+      const repeatsInside = groups.pop() ?? false;
+      if (repeatsInside && isRepeat(pattern[i + 1])) return false;
+      if (repeatsInside && groups.length > 0) groups[groups.length - 1] = true;
+    } else if (isRepeat(char) && groups.length > 0) {
+      groups[groups.length - 1] = true;
+    }
+  }
+  return true;
+}
+
+// Keep the well-formed rules from untrusted input, such as a query parameter
+export function sanitizeFilterRules(input: unknown): EventFilterRule[] {
+  if (!Array.isArray(input)) return [];
+
+  return input
+    .filter((rule): rule is EventFilterRule =>
+      !!rule && typeof rule === 'object' &&
+      FILTER_ACTIONS.includes(rule.action) &&
+      FILTER_FIELDS.includes(rule.field) &&
+      FILTER_MATCHES.includes(rule.match) &&
+      typeof rule.value === 'string' && rule.value.length <= MAX_FILTER_VALUE_LENGTH
+    )
+    .slice(0, MAX_FILTER_RULES)
+    .map((rule, index) => ({
+      id: typeof rule.id === 'string' ? rule.id : String(index),
+      action: rule.action,
+      field: rule.field,
+      match: rule.match,
+      value: rule.value,
+    }));
+}
+
+// Origins (scheme://host[:port]) from untrusted input, such as a query
+// parameter; anything that isn't an http(s) origin is dropped
+export function sanitizeOrigins(input: unknown): string[] {
+  if (!Array.isArray(input)) return [];
+
+  const origins = input.flatMap(value => {
+    if (typeof value !== 'string') return [];
+    try {
+      const url = new URL(value.trim());
+      return url.protocol === 'http:' || url.protocol === 'https:' ? [url.origin] : [];
+    } catch {
+      return [];
+    }
+  });
+  return [...new Set(origins)];
+}
+
+const COLOR_RULE_FIELDS: EventColorRule['field'][] = ['title', 'category', 'color'];
+const TAB_GROUP_FIELDS: EventTabGroup['field'][] = ['title', 'category'];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object';
+}
+
+function optionalString(value: unknown, fallback: string): string {
+  return typeof value === 'string' ? value : fallback;
+}
+
+// Additional calendars from untrusted input; each needs an id and a url
+function sanitizeCalendars(input: unknown): CalendarSourceConfig[] {
+  if (!Array.isArray(input)) return [];
+
+  return input
+    .filter(isRecord)
+    .filter(calendar => typeof calendar.id === 'string' && typeof calendar.url === 'string')
+    .map(calendar => ({
+      id: calendar.id as string,
+      url: calendar.url as string,
+      name: optionalString(calendar.name, ''),
+      color: optionalString(calendar.color, defaultConfig.eventColor),
+    }));
+}
+
+// Color rules from untrusted input; each needs a field, value and color
+function sanitizeColorRules(input: unknown): EventColorRule[] {
+  if (!Array.isArray(input)) return [];
+
+  return input
+    .filter(isRecord)
+    .filter(rule =>
+      COLOR_RULE_FIELDS.includes(rule.field as EventColorRule['field']) &&
+      typeof rule.value === 'string' && typeof rule.color === 'string'
+    )
+    .map((rule, index) => ({
+      id: optionalString(rule.id, String(index)),
+      field: rule.field as EventColorRule['field'],
+      value: rule.value as string,
+      label: optionalString(rule.label, ''),
+      color: rule.color as string,
+      opacity: typeof rule.opacity === 'number' && Number.isFinite(rule.opacity) ? rule.opacity : defaultConfig.eventOpacity,
+      borderColor: optionalString(rule.borderColor, rule.color as string),
+    }));
+}
+
+// Tab groups from untrusted input; each needs a field, label and value
+function sanitizeTabGroups(input: unknown): EventTabGroup[] {
+  if (!Array.isArray(input)) return [];
+
+  return input
+    .filter(isRecord)
+    .filter(group =>
+      TAB_GROUP_FIELDS.includes(group.field as EventTabGroup['field']) &&
+      typeof group.label === 'string' && typeof group.value === 'string'
+    )
+    .map((group, index) => ({
+      id: optionalString(group.id, String(index)),
+      label: group.label as string,
+      field: group.field as EventTabGroup['field'],
+      value: group.value as string,
+    }));
+}
+
+// The list fields of a config, each with the sanitizer for untrusted input
+const LIST_SANITIZERS = {
+  calendars: sanitizeCalendars,
+  filters: sanitizeFilterRules,
+  colorRules: sanitizeColorRules,
+  tabGroups: sanitizeTabGroups,
+  allowedOrigins: sanitizeOrigins,
+} satisfies { [K in keyof CalendarConfig]?: (input: unknown) => CalendarConfig[K] };
+
+// The number fields of a config with their [min, max], as the editor allows.
+// Sizes and counts drive rendering and the range loaded from the feeds.
+const NUMBER_RANGES = {
+  borderRadius: [0, 32],
+  borderWidth: [0, 4],
+  containerPadding: [0, 40],
+  eventOpacity: [0, 100],
+  eventBorderOpacity: [0, 100],
+  dayStartHour: [0, 23],
+  dayEndHour: [1, 24],
+  monthCount: [2, 6],
+  agendaDaysBehind: [0, 90],
+  agendaDaysAhead: [7, 365],
+  agendaMaxEvents: [5, 100],
+  maxEventRows: [1, 8],
+  weekStartsOn: [0, 6],
+} satisfies { [K in keyof CalendarConfig]?: CalendarConfig[K] extends number ? [number, number] : never };
+
+// Clamp untrusted input into the field's range; anything that isn't a
+// number keeps the default
+function sanitizeNumber(field: keyof typeof NUMBER_RANGES, input: unknown): number {
+  const value = typeof input === 'string' ? Number(input) : input;
+  if (typeof value !== 'number' || !Number.isFinite(value)) return defaultConfig[field];
+  const [min, max] = NUMBER_RANGES[field];
+  return Math.min(Math.max(Math.round(value), min), max);
+}
+
+// Query for /api/calendar: one url/sourceId pair per calendar, in order, and
+// the filter rules as JSON. `sources` narrows it to some of the calendars.
+export function calendarApiQuery(config: CalendarConfig, sources = getCalendarSources(config)): URLSearchParams {
+  const query = new URLSearchParams();
+  for (const source of sources) {
+    query.append('url', source.url);
+    query.append('sourceId', source.id);
+  }
+  if (config.filters.length > 0) {
+    query.set('filters', JSON.stringify(config.filters.map(({ action, field, match, value }) => ({ action, field, match, value }))));
+  }
+  return query;
+}
+
+// webcal:// address of the embed's own feed: every calendar it shows,
+// merged into one, as served by /api/calendar/feed.ics. Secret addresses are
+// left out like in calendarSubscribeUrl; null when no calendar is left.
+export function calendarFeedUrl(config: CalendarConfig, origin: string): string | null {
+  const sources = getCalendarSources(config).filter(source => parseCalendarSource(source.url)?.provider !== 'secret');
+  if (sources.length === 0) return null;
+  return `${origin.replace(/^https?:/i, 'webcal:')}/api/calendar/feed.ics?${calendarApiQuery(config, sources)}`;
+}
+
+// Printable page for the days from `start` to `end` (YYYY-MM-DD), as served
+// by /api/calendar/print. The server can't know a viewer's zone, so 'viewer'
+// falls back to the calendar's own.
+export function calendarPrintUrl(config: CalendarConfig, start: string, end: string, layout: 'month' | 'list' = 'month'): string {
+  const query = calendarApiQuery(config);
+  query.set('start', start);
+  query.set('end', end);
+  query.set('layout', layout);
+  query.set('locale', config.locale);
+  query.set('hour12', String(config.hour12));
+  query.set('weekStartsOn', String(config.weekStartsOn));
+  if (config.displayTimeZone !== 'viewer' && config.displayTimeZone !== 'calendar') {
+    query.set('timeZone', config.displayTimeZone);
+  }
+  return `/api/calendar/print?${query}`;
+}
+
+// PNG of the calendar for newsletters and signage, as served by
+// /api/calendar/image. Saved embeds are referenced by id, so the image
+// follows later edits.
+export function calendarImageUrl(config: CalendarConfig, layout: 'month' | 'list', embedId?: string): string {
+  const query = new URLSearchParams(embedId ? { embed: embedId } : configToQueryString(config));
+  query.set('layout', layout);
+  return `/api/calendar/image?${query}`;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Time range to request from /api/calendar. The agenda uses its own day
+// range, overview views look a year ahead and the others the next 90 days.
+export function calendarTimeRange({
+  viewMode,
+  showPastEvents,
+  agendaDaysBehind,
+  agendaDaysAhead,
+}: Pick<CalendarConfig, 'viewMode' | 'showPastEvents' | 'agendaDaysBehind' | 'agendaDaysAhead'>): { timeMin: string; timeMax: string } {
+  const now = Date.now();
+
+  if (viewMode === 'agenda') {
+    const startOfToday = new Date();
+    startOfToday.setHours(0, 0, 0, 0);
+    return {
+      timeMin: new Date(startOfToday.getTime() - Math.max(agendaDaysBehind, 0) * DAY_MS).toISOString(),
+      timeMax: new Date(now + Math.max(agendaDaysAhead, 1) * DAY_MS).toISOString(),
+    };
+  }
+
+  const daysAhead = viewMode === 'year' || viewMode === 'multiMonth' ? 366 : 90;
+
+  return {
+    timeMin: new Date(showPastEvents ? now - 365 * DAY_MS : now).toISOString(),
+    timeMax: new Date(now + daysAhead * DAY_MS).toISOString(),
+  };
+}
+
 export function configToQueryString(config: CalendarConfig): string {
   return new URLSearchParams(
-    Object.entries(config).map(([key, value]) => [key, String(value)])
+    Object.entries(config).map(([key, value]) => [
+      key,
+      typeof value === 'object' ? JSON.stringify(value) : String(value),
+    ])
   ).toString();
 }
 
 export function queryStringToConfig(query: URLSearchParams): Partial<CalendarConfig> {
   const config: Partial<CalendarConfig> = {};
   
-  const stringFields = ['calendarUrl', 'viewMode', 'theme', 'accentColor', 'eventColor', 'eventBorderColor', 'backgroundColor', 
+  const stringFields = ['calendarUrl', 'viewMode', 'overviewStyle', 'theme', 'accentColor', 'eventColor', 'eventBorderColor', 'backgroundColor', 
     'textColor', 'borderColor', 'shadowSize', 'fontFamily', 'width', 'height', 
-    'minHeight', 'maxHeight', 'aspectRatio'];
+    'minHeight', 'maxHeight', 'aspectRatio', 'locale', 'displayTimeZone'];
   
   const booleanFields = ['showTitle', 'showNavigation', 'showDate', 'showTodayButton', 'showPastEvents', 'showPrint', 
-    'showTabs', 'showCalendars', 'showTimezone', 'responsive', 'squarespaceMode'];
-  
-  const numberFields = ['borderRadius', 'borderWidth', 'containerPadding', 'eventOpacity', 'eventBorderOpacity'];
+    'showTabs', 'showCalendars', 'showTimezone', 'showSubscribe', 'showColorLegend', 'showSearch', 'hour12', 'responsive', 'squarespaceMode'];
   
   stringFields.forEach(field => {
     const value = query.get(field);
     if (value) (config as Record<string, unknown>)[field] = value;
   });
-  
+
   booleanFields.forEach(field => {
     const value = query.get(field);
     if (value) (config as Record<string, unknown>)[field] = value === 'true';
   });
-  
-  numberFields.forEach(field => {
+
+  (Object.keys(NUMBER_RANGES) as Array<keyof typeof NUMBER_RANGES>).forEach(field => {
+    const value = query.get(field);
+    if (value) config[field] = sanitizeNumber(field, value);
+  });
+
+  // Lists are serialized as JSON, and checked item by item like saved configs
+  (Object.keys(LIST_SANITIZERS) as Array<keyof typeof LIST_SANITIZERS>).forEach(field => {
     const value = query.get(field);
-    if (value) (config as Record<string, unknown>)[field] = Number(value);
+    if (!value) return;
+    try {
+      (config as Record<string, unknown>)[field] = LIST_SANITIZERS[field](JSON.parse(value));
+    } catch {
+      // Ignore malformed values and keep the default
+    }
   });
   
   return config;
 }
+
+// Build a full config from untrusted JSON, such as a saved embed. Unknown
+// keys are dropped and values of the wrong type fall back to the default.
+export function configFromJSON(input: unknown): CalendarConfig {
+  const config: CalendarConfig = { ...defaultConfig };
+  if (!input || typeof input !== 'object') return config;
+
+  const values = input as Record<string, unknown>;
+  const target = config as unknown as Record<string, unknown>;
+
+  for (const [key, fallback] of Object.entries(defaultConfig)) {
+    const value = values[key];
+    if (Array.isArray(fallback) ? Array.isArray(value) : typeof value === typeof fallback && value !== null) {
+      target[key] = value;
+    }
+  }
+
+  for (const field of Object.keys(LIST_SANITIZERS) as Array<keyof typeof LIST_SANITIZERS>) {
+    target[field] = LIST_SANITIZERS[field](config[field]);
+  }
+
+  for (const field of Object.keys(NUMBER_RANGES) as Array<keyof typeof NUMBER_RANGES>) {
+    config[field] = sanitizeNumber(field, config[field]);
+  }
+
+  return config;
+}